@@ -0,0 +1,162 @@
+import { ValidationError } from './errors.js';
+import { systemClock } from './policy.js';
+import type { Clock, Execution, PolicyFactory } from './policy.js';
+
+interface CacheEntry {
+  value: unknown;
+  // Served as-is until then
+  expiresAt: number;
+  // Served while being refreshed until then
+  staleUntil: number;
+}
+
+// Where cached results live. Methods may return promises, for stores backed by an external service
+interface CacheStore {
+  get(key: string): CacheEntry | undefined | PromiseLike<CacheEntry | undefined>;
+  // `ttlMs` is how long the entry is of any use, for stores that expire entries themselves
+  set(key: string, entry: CacheEntry, ttlMs: number): void | PromiseLike<void>;
+  delete(key: string): void | PromiseLike<void>;
+  clear(): void | PromiseLike<void>;
+}
+
+interface CacheOptions<TInput = unknown, TContext = unknown> {
+  // How long a result is served without running the handler
+  ttlMs: number;
+  // How long an expired result is still served while it is refreshed in the background (default: 0)
+  staleWhileRevalidateMs?: number;
+  // Cache key of an execution (default: a stable serialization of the validated input, with
+  // executions given a per-call context never cached)
+  key?: (input: TInput, ctx: TContext) => string;
+  // Default: an in-memory LRU store holding up to 1000 results
+  store?: CacheStore;
+  clock?: Clock;
+}
+
+// Added to operations built with `.cache()`
+interface CacheControls<TInput = unknown, TContext = unknown> {
+  // Drop the result cached for an input; the context is only needed by custom `key` functions
+  invalidate(input: TInput, ctx?: TContext): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// In-memory store evicting the least recently used results beyond `maxEntries`
+export function createMemoryCacheStore(options: { maxEntries?: number } = {}): CacheStore {
+  const { maxEntries = 1000 } = options;
+  // Maps iterate in insertion order, so re-inserting on access keeps the oldest entry first
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+// JSON with object keys sorted, so equal inputs map to the same key whatever their key order.
+// Maps, sets and bigints, which JSON would drop or reject, are tagged and kept whole
+export function stableStringify(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item === 'bigint') return { $bigint: item.toString() };
+    if (item instanceof Map) {
+      const entries = [...item].map(([key, value]) => [stableStringify(key), value] as const);
+      return { $map: entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)) };
+    }
+    if (item instanceof Set) return { $set: [...item].map(stableStringify).sort() };
+    return typeof item === 'object' && item !== null && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.keys(item)
+            .sort()
+            .map((key) => [key, item[key]]),
+        )
+      : item;
+  });
+}
+
+export function cachePolicy(options: CacheOptions<any, any>): PolicyFactory {
+  const { ttlMs, staleWhileRevalidateMs = 0, key, clock = systemClock } = options;
+  if (!(ttlMs > 0)) {
+    throw new RangeError('cache() ttlMs must be a positive number');
+  }
+
+  return (operation) => {
+    const store = options.store ?? createMemoryCacheStore();
+    // Keys being refreshed in the background, so a stale entry is refreshed once
+    const refreshing = new Set<string>();
+
+    const refresh = async (
+      cacheKey: string,
+      execution: Execution,
+      next: (execution: Execution) => Promise<unknown>,
+    ) => {
+      const value = await next(execution);
+      const now = clock.now();
+      await store.set(
+        cacheKey,
+        { value, expiresAt: now + ttlMs, staleUntil: now + ttlMs + staleWhileRevalidateMs },
+        ttlMs + staleWhileRevalidateMs,
+      );
+      return value;
+    };
+
+    return {
+      policy: async (execution, next) => {
+        // A per-call context may be another caller's, e.g. another tenant's, so only a `key` can tell
+        // whether a cached result is theirs
+        if (!key && execution.ctxGiven) return next(execution);
+
+        const cacheKey = key ? key(execution.input, execution.ctx) : stableStringify(execution.input);
+        const entry = await store.get(cacheKey);
+        const now = clock.now();
+
+        if (entry && now < entry.expiresAt) {
+          return entry.value;
+        }
+        if (entry && now < entry.staleUntil) {
+          if (!refreshing.has(cacheKey)) {
+            refreshing.add(cacheKey);
+            // A failed refresh keeps the stale result; the next call tries again
+            refresh(cacheKey, execution, next)
+              .catch(() => {})
+              .finally(() => refreshing.delete(cacheKey));
+          }
+          return entry.value;
+        }
+        return refresh(cacheKey, execution, next);
+      },
+      controls: {
+        async invalidate(input: unknown, ctx?: unknown) {
+          // Keys are computed from validated input, as in `execute`
+          const result = await operation.schema['~standard'].validate(input);
+          if (result.issues) {
+            throw new ValidationError(result.issues, { operation });
+          }
+          await store.delete(key ? key(result.value, ctx) : stableStringify(result.value));
+        },
+        async clear() {
+          await store.clear();
+        },
+      } satisfies CacheControls,
+    };
+  };
+}
+
+export type { CacheControls, CacheEntry, CacheOptions, CacheStore };
@@ -0,0 +1,139 @@
+import {
+  CircuitOpenError,
+  OperationRejectedError,
+  OperationTimeoutError,
+  OutputValidationError,
+  ValidationError,
+} from './errors.js';
+import type { AnyOperation } from './index.js';
+import { systemClock } from './policy.js';
+import type { Clock, Execution, PolicyFactory } from './policy.js';
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitStateChange {
+  operation: AnyOperation;
+  from: CircuitState;
+  to: CircuitState;
+}
+
+interface CircuitBreakerOptions {
+  // Failures within `windowMs` that open the circuit
+  failureThreshold: number;
+  windowMs: number;
+  // How long the circuit stays open before one trial execution may run
+  halfOpenAfterMs: number;
+  // Which handler errors count as failures (default: all of them)
+  isFailure?: (error: unknown) => boolean;
+  // Runs with the same input and context instead of failing fast while the circuit is open
+  fallback?: AnyOperation;
+  onStateChange?: (change: CircuitStateChange) => void;
+  clock?: Clock;
+}
+
+// Added to operations built with `.circuitBreaker()`
+interface CircuitBreakerControls {
+  circuitState(): CircuitState;
+}
+
+// Bad data, cancelled executions and executions turned away by other policies say nothing about
+// the health of what the handler calls
+function isHandlerFailure(error: unknown, signal: AbortSignal): boolean {
+  if (error instanceof ValidationError || error instanceof OutputValidationError) return false;
+  if (error instanceof OperationRejectedError) return false;
+  return !signal.aborted || signal.reason instanceof OperationTimeoutError;
+}
+
+function executeFallback(fallback: AnyOperation, { input, ctx, signal }: Execution): Promise<unknown> {
+  return fallback.execute(input, ctx === undefined ? { signal } : { ctx, signal });
+}
+
+export function circuitBreakerPolicy(options: CircuitBreakerOptions): PolicyFactory {
+  const {
+    failureThreshold,
+    windowMs,
+    halfOpenAfterMs,
+    isFailure = () => true,
+    fallback,
+    clock = systemClock,
+  } = options;
+  if (!Number.isInteger(failureThreshold) || failureThreshold < 1) {
+    throw new RangeError('circuitBreaker() failureThreshold must be a positive integer');
+  }
+  if (!(windowMs > 0)) {
+    throw new RangeError('circuitBreaker() windowMs must be a positive number');
+  }
+  if (!(halfOpenAfterMs >= 0)) {
+    throw new RangeError('circuitBreaker() halfOpenAfterMs must not be negative');
+  }
+
+  return (operation) => {
+    let state: CircuitState = 'closed';
+    // Times of recent failures while closed
+    let failures: number[] = [];
+    let openedAt = 0;
+    let trialRunning = false;
+
+    const transition = (to: CircuitState) => {
+      const from = state;
+      state = to;
+      options.onStateChange?.({ operation, from, to });
+    };
+
+    const open = () => {
+      failures = [];
+      openedAt = clock.now();
+      transition('open');
+    };
+
+    // An open circuit turns half-open once it has been open long enough
+    const currentState = () => {
+      if (state === 'open' && clock.now() - openedAt >= halfOpenAfterMs) {
+        transition('half-open');
+      }
+      return state;
+    };
+
+    const recordFailure = (trial: boolean) => {
+      if (trial) return open();
+      // Executions started before the circuit opened may still fail afterwards
+      if (state !== 'closed') return;
+
+      const now = clock.now();
+      failures = failures.filter((time) => time > now - windowMs);
+      failures.push(now);
+      if (failures.length >= failureThreshold) open();
+    };
+
+    return {
+      policy: async (execution, next) => {
+        const current = currentState();
+        if (current === 'open' || (current === 'half-open' && trialRunning)) {
+          if (fallback) return executeFallback(fallback, execution);
+          const retryAfterMs = current === 'open' ? Math.max(0, openedAt + halfOpenAfterMs - clock.now()) : 0;
+          throw new CircuitOpenError({ operation, retryAfterMs });
+        }
+
+        const trial = current === 'half-open';
+        trialRunning ||= trial;
+        try {
+          const output = await next(execution);
+          if (trial) transition('closed');
+          return output;
+        } catch (error) {
+          if (isHandlerFailure(error, execution.signal) && isFailure(error)) {
+            recordFailure(trial);
+          }
+          throw error;
+        } finally {
+          if (trial) trialRunning = false;
+        }
+      },
+      controls: {
+        circuitState: currentState,
+      } satisfies CircuitBreakerControls,
+    };
+  };
+}
+
+export type { CircuitBreakerControls, CircuitBreakerOptions, CircuitState, CircuitStateChange };
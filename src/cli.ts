@@ -0,0 +1,254 @@
+import { isInputErrorOf } from './errors.js';
+import type { ValidationError } from './errors.js';
+import { toRouter } from './router.js';
+import type { DynamicRouter, Router, RouterTree } from './router.js';
+
+// Where the CLI reads and writes; defaults to the process streams and the file system
+interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readStdin: () => Promise<string>;
+  readFile: (path: string) => Promise<string>;
+}
+
+interface CliOptions {
+  // Program name shown in help output
+  name?: string;
+  io?: Partial<CliIO>;
+}
+
+type OutputFormat = 'json' | 'table';
+
+interface ParsedArgs {
+  command: string | undefined;
+  source: string | undefined;
+  json: string | undefined;
+  format: OutputFormat;
+  help: boolean;
+  flags: Record<string, unknown>;
+}
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+  readStdin: async () => {
+    let data = '';
+    for await (const chunk of process.stdin) data += chunk;
+    return data;
+  },
+  readFile: async (path) => (await import('node:fs/promises')).readFile(path, 'utf8'),
+};
+
+// Flag values are strings; turn the ones that clearly mean something else into that
+function coerce(value: string): unknown {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value === 'null') return null;
+  // Only canonical numbers, so values like '007' or '1e3' stay strings
+  if (value.trim() !== '' && String(Number(value)) === value) return Number(value);
+  if (/^[[{]/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+// Flag segments that would reach `Object.prototype` instead of an input field
+const unsafeSegments = new Set(['__proto__', 'constructor', 'prototype']);
+
+const hasOwn = (target: object, key: string) => Object.prototype.hasOwnProperty.call(target, key);
+
+// `--user.name Ada` sets `{ user: { name: 'Ada' } }`; repeated flags collect into an array
+function setFlag(flags: Record<string, unknown>, key: string, value: unknown): void {
+  const segments = key.split('.');
+  if (segments.some((segment) => unsafeSegments.has(segment))) {
+    throw new Error(`Invalid flag "--${key}"`);
+  }
+
+  let target = flags;
+  for (const segment of segments.slice(0, -1)) {
+    if (!hasOwn(target, segment) || typeof target[segment] !== 'object' || target[segment] === null) {
+      target[segment] = {};
+    }
+    target = target[segment] as Record<string, unknown>;
+  }
+
+  const last = segments[segments.length - 1];
+  if (!hasOwn(target, last)) {
+    target[last] = value;
+  } else if (Array.isArray(target[last])) {
+    (target[last] as unknown[]).push(value);
+  } else {
+    target[last] = [target[last], value];
+  }
+}
+
+function parseArgs(argv: ReadonlyArray<string>): ParsedArgs {
+  const parsed: ParsedArgs = {
+    command: undefined,
+    source: undefined,
+    json: undefined,
+    format: 'json',
+    help: false,
+    flags: {},
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--help' || arg === '-h') {
+      parsed.help = true;
+    } else if (arg.startsWith('--') && arg.length > 2) {
+      const [name, inline] = arg.includes('=')
+        ? [arg.slice(2, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+        : [arg.slice(2)];
+      const next = argv[i + 1];
+      const takesValue = inline === undefined && next !== undefined && !next.startsWith('--');
+      const value = inline ?? (takesValue ? argv[++i] : undefined);
+
+      if (name === 'json') {
+        parsed.json = value;
+      } else if (name === 'format') {
+        if (value !== 'json' && value !== 'table') throw new Error(`Unknown format "${value}", expected json or table`);
+        parsed.format = value;
+      } else if (value === undefined) {
+        // Bare flags are booleans: `--dry-run` is true, `--no-dry-run` is false
+        if (name.startsWith('no-')) setFlag(parsed.flags, name.slice(3), false);
+        else setFlag(parsed.flags, name, true);
+      } else {
+        setFlag(parsed.flags, name, coerce(value));
+      }
+    } else if (parsed.command === undefined) {
+      parsed.command = arg;
+    } else if (parsed.source === undefined) {
+      parsed.source = arg;
+    } else {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+  }
+
+  return parsed;
+}
+
+// Input comes from `--json`, a JSON file path (`-` for stdin) or `--key value` flags
+async function readInput(args: ParsedArgs, io: CliIO): Promise<unknown> {
+  if (args.json !== undefined) {
+    return JSON.parse(args.json);
+  }
+  if (args.source === '-') {
+    return JSON.parse(await io.readStdin());
+  }
+  if (args.source !== undefined) {
+    return JSON.parse(await io.readFile(args.source));
+  }
+  return args.flags;
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined) return '';
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+// Arrays of objects become one row per item; a single object becomes one row per key
+function formatTable(value: unknown): string {
+  let rows: string[][];
+  if (Array.isArray(value) && value.every((item) => typeof item === 'object' && item !== null)) {
+    const columns = [...new Set(value.flatMap((item) => Object.keys(item)))];
+    rows = [columns, ...value.map((item) => columns.map((column) => formatCell(item[column])))];
+  } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    rows = [['key', 'value'], ...Object.entries(value).map(([key, item]) => [key, formatCell(item)])];
+  } else {
+    return formatCell(value);
+  }
+
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd(),
+    )
+    .join('\n');
+}
+
+function formatIssues(error: ValidationError): string {
+  const lines = error.issues.map((issue, index) => `  - ${error.paths[index] || '(input)'}: ${issue.message}`);
+  return ['Invalid input:', ...lines].join('\n');
+}
+
+function formatHelp(router: DynamicRouter, name: string): string {
+  const width = Math.max(...router.paths.map((path) => path.length));
+  const commands = router.paths.map((path) => {
+    const description = router.resolve(path)?.meta.description;
+    return typeof description === 'string' ? `  ${path.padEnd(width)}  ${description}` : `  ${path}`;
+  });
+
+  return [
+    `Usage: ${name} <operation> [input.json | -] [--json '{...}'] [--key value ...] [--format json|table]`,
+    '',
+    'Operations:',
+    ...commands,
+  ].join('\n');
+}
+
+// Run the operation named by the first argument, e.g. `users.create --name Ada`, and resolve with the
+// exit code: 0 on success, 1 on failure. Set it with `process.exitCode = await runCli(...)`
+export async function runCli(
+  operations: RouterTree | Router<any>,
+  argv: ReadonlyArray<string>,
+  ctx?: unknown,
+  options: CliOptions = {},
+): Promise<number> {
+  const io: CliIO = { ...defaultIO, ...options.io };
+  const router = toRouter(operations);
+  const name = options.name ?? 'cli';
+
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    io.stderr(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+
+  if (args.command === undefined) {
+    (args.help ? io.stdout : io.stderr)(formatHelp(router, name));
+    return args.help ? 0 : 1;
+  }
+  const operation = router.resolve(args.command);
+  if (!operation) {
+    io.stderr(`Unknown operation "${args.command}"\n\n${formatHelp(router, name)}`);
+    return 1;
+  }
+  if (args.help) {
+    io.stdout(`Usage: ${name} ${args.command} [input.json | -] [--json '{...}'] [--key value ...]`);
+    return 0;
+  }
+
+  let input: unknown;
+  try {
+    input = await readInput(args, io);
+  } catch (error) {
+    io.stderr(`Could not read input: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+
+  try {
+    const output = await router.call(args.command, input, ctx);
+    io.stdout(args.format === 'table' ? formatTable(output) : JSON.stringify(output ?? null, null, 2));
+    return 0;
+  } catch (error) {
+    io.stderr(
+      isInputErrorOf(error, operation)
+        ? formatIssues(error)
+        : `Error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return 1;
+  }
+}
+
+export type { CliIO, CliOptions };
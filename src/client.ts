@@ -0,0 +1,101 @@
+import type { AnyOperation } from './index.js';
+import { RemoteOperationError, ValidationError } from './errors.js';
+import type { HttpErrorBody } from './http.js';
+import type { BoundOperation } from './registry.js';
+import { toRouter } from './router.js';
+import type { Router, RouterTree } from './router.js';
+
+// Sends a call to wherever the operations live and resolves with the output
+interface ClientTransport {
+  call(path: string, input: unknown): Promise<unknown>;
+}
+
+type ClientTree<TTree> = {
+  [K in keyof TTree]: TTree[K] extends AnyOperation ? BoundOperation<TTree[K]> : ClientTree<TTree[K]>;
+};
+
+// Mirrors the operation tree (or router) with plain `(input) => Promise<output>` functions
+type Client<TOperations> = ClientTree<TOperations extends Router<infer TTree> ? TTree : TOperations>;
+
+interface ClientOptions {
+  // The operations (or a router) whose schemas check input before it is sent
+  validate?: RouterTree | Router<any>;
+}
+
+// Call operations in the same process, e.g. for tests or server-side rendering
+export function inProcessTransport(operations: RouterTree | Router<any>, ctx?: unknown): ClientTransport {
+  const router = toRouter(operations);
+  return { call: (path, input) => router.call(path, input, ctx) };
+}
+
+// Call operations served by `createFetchHandler`, mapping its error responses back to errors
+export function fetchTransport(options: {
+  url: string;
+  headers?: Record<string, string> | (() => Record<string, string> | PromiseLike<Record<string, string>>);
+  fetch?: typeof fetch;
+}): ClientTransport {
+  const { url, headers = {}, fetch: send = fetch } = options;
+  const baseUrl = url.replace(/\/+$/, '');
+
+  return {
+    async call(path, input) {
+      const response = await send(`${baseUrl}/${path.split('.').join('/')}`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(typeof headers === 'function' ? await headers() : headers),
+        },
+        body: JSON.stringify(input),
+      });
+      const body = await response.json().catch(() => undefined);
+
+      if (response.ok) {
+        return body;
+      }
+      const error = (body as HttpErrorBody | undefined)?.error;
+      if (error?.code === 'VALIDATION_ERROR' && error.issues) {
+        throw new ValidationError(error.issues);
+      }
+      throw new RemoteOperationError(error?.message ?? response.statusText, {
+        path,
+        status: response.status,
+        code: error?.code,
+      });
+    },
+  };
+}
+
+async function preValidate(operation: AnyOperation | undefined, input: unknown): Promise<void> {
+  if (!operation) return;
+  const result = await operation.schema['~standard'].validate(input);
+  if (result.issues) {
+    throw new ValidationError(result.issues, { operation });
+  }
+}
+
+// Typed proxy over a transport: `client.users.create(input)` calls the 'users.create' operation.
+// Only the operations' types are needed, unless input should be validated before it is sent
+export function createClient<TOperations extends RouterTree | Router<any>>(
+  transport: ClientTransport,
+  options: ClientOptions = {},
+): Client<TOperations> {
+  const validator = options.validate && toRouter(options.validate);
+
+  const createProxy = (segments: string[]): any =>
+    new Proxy(() => {}, {
+      get(_target, key) {
+        // Keep the client from being mistaken for a promise when returned from async functions
+        if (typeof key === 'symbol' || key === 'then') return undefined;
+        return createProxy([...segments, key]);
+      },
+      async apply(_target, _thisArg, [input]) {
+        const path = segments.join('.');
+        await preValidate(validator?.resolve(path), input);
+        return transport.call(path, input);
+      },
+    });
+
+  return createProxy([]);
+}
+
+export type { Client, ClientOptions, ClientTransport };
@@ -0,0 +1,115 @@
+import { ConcurrencyLimitError } from './errors.js';
+import type { PolicyFactory } from './policy.js';
+
+interface ConcurrencyOptions<TInput = unknown, TContext = unknown> {
+  // Most executions running at once (per key, with `key`)
+  max: number;
+  // Which queued execution starts when one finishes (default: 'fifo')
+  queue?: 'fifo' | 'lifo';
+  // Most executions waiting at once (per key); more are rejected (default: no limit)
+  maxQueued?: number;
+  // Limit executions per key instead of per operation, e.g. one at a time per user
+  key?: (input: TInput, ctx: TContext) => string;
+}
+
+interface ConcurrencyStats {
+  running: number;
+  queued: number;
+}
+
+// Added to operations built with `.concurrency()`
+interface ConcurrencyControls {
+  // Live counts for one key, or across all keys when none is given
+  concurrencyStats(key?: string): ConcurrencyStats;
+}
+
+interface Lane {
+  running: number;
+  // Starts a queued execution, handing it the slot of the one that finished
+  queue: Array<() => void>;
+}
+
+export function concurrencyPolicy(options: ConcurrencyOptions<any, any>): PolicyFactory {
+  const { max, queue: order = 'fifo', maxQueued = Infinity, key } = options;
+  if (!Number.isInteger(max) || max < 1) {
+    throw new RangeError('concurrency() max must be a positive integer');
+  }
+  if (!(maxQueued >= 0)) {
+    throw new RangeError('concurrency() maxQueued must not be negative');
+  }
+
+  return (operation) => {
+    // Lanes are dropped once idle, so keyed limits do not pile up
+    const lanes = new Map<string | undefined, Lane>();
+
+    const release = (laneKey: string | undefined, lane: Lane) => {
+      const start = order === 'lifo' ? lane.queue.pop() : lane.queue.shift();
+      if (start) {
+        start();
+      } else if (--lane.running === 0) {
+        lanes.delete(laneKey);
+      }
+    };
+
+    // Resolves once the execution holds a slot
+    const acquire = (laneKey: string | undefined, lane: Lane, signal: AbortSignal): Promise<void> | void => {
+      if (lane.running < max) {
+        lane.running++;
+        return;
+      }
+      if (lane.queue.length >= maxQueued) {
+        throw new ConcurrencyLimitError({ operation, max, maxQueued, key: laneKey });
+      }
+
+      if (signal.aborted) {
+        throw signal.reason;
+      }
+
+      return new Promise((resolve, reject) => {
+        // Aborted executions give up their place in the queue
+        const onAbort = () => {
+          lane.queue.splice(lane.queue.indexOf(start), 1);
+          reject(signal.reason);
+        };
+        const start = () => {
+          signal.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        lane.queue.push(start);
+        signal.addEventListener('abort', onAbort, { once: true });
+      });
+    };
+
+    return {
+      policy: async (execution, next) => {
+        const laneKey = key?.(execution.input, execution.ctx);
+        let lane = lanes.get(laneKey);
+        if (!lane) {
+          lane = { running: 0, queue: [] };
+          lanes.set(laneKey, lane);
+        }
+
+        await acquire(laneKey, lane, execution.signal);
+        try {
+          return await next(execution);
+        } finally {
+          release(laneKey, lane);
+        }
+      },
+      controls: {
+        concurrencyStats(statsKey?: string) {
+          const selected = statsKey === undefined ? [...lanes.values()] : [lanes.get(statsKey)];
+          return selected.reduce<ConcurrencyStats>(
+            (stats, lane) => ({
+              running: stats.running + (lane?.running ?? 0),
+              queued: stats.queued + (lane?.queue.length ?? 0),
+            }),
+            { running: 0, queued: 0 },
+          );
+        },
+      } satisfies ConcurrencyControls,
+    };
+  };
+}
+
+export type { ConcurrencyControls, ConcurrencyOptions, ConcurrencyStats };
@@ -0,0 +1,65 @@
+import { stableStringify } from './cache.js';
+import type { PolicyFactory } from './policy.js';
+
+interface DedupeOptions<TInput = unknown, TContext = unknown> {
+  // Which executions count as the same (default: a stable serialization of the validated input,
+  // with executions given a per-call context never shared)
+  key?: (input: TInput, ctx: TContext) => string;
+}
+
+interface Flight {
+  result: Promise<unknown>;
+  // Signal of the shared call, aborted once every waiter has aborted
+  controller: AbortController;
+  waiters: number;
+}
+
+// Single-flight: executions with the same key while one is pending share its result. Nothing is
+// kept once it settles
+export function dedupePolicy(options: DedupeOptions<any, any> = {}): PolicyFactory {
+  const { key } = options;
+
+  return () => {
+    const pending = new Map<string, Flight>();
+
+    const release = (flightKey: string, flight: Flight) => {
+      if (pending.get(flightKey) === flight) pending.delete(flightKey);
+    };
+
+    return {
+      policy: (execution, next) => {
+        const { signal } = execution;
+        if (signal.aborted) throw signal.reason;
+        // A per-call context may be another caller's, e.g. another tenant's, so only a `key` can tell
+        // whether its execution is the same
+        if (!key && execution.ctxGiven) return next(execution);
+
+        const flightKey = key ? key(execution.input, execution.ctx) : stableStringify(execution.input);
+        let flight = pending.get(flightKey);
+        if (!flight) {
+          const controller = new AbortController();
+          const created: Flight = {
+            controller,
+            waiters: 0,
+            result: next({ ...execution, signal: controller.signal }).finally(() => release(flightKey, created)),
+          };
+          pending.set(flightKey, created);
+          flight = created;
+        }
+
+        // A waiter that aborts stops waiting on its own; the shared call stops when nobody waits
+        const joined = flight;
+        const leave = () => {
+          if (--joined.waiters > 0) return;
+          release(flightKey, joined);
+          joined.controller.abort(signal.reason);
+        };
+        joined.waiters++;
+        signal.addEventListener('abort', leave, { once: true });
+        return joined.result.finally(() => signal.removeEventListener('abort', leave));
+      },
+    };
+  };
+}
+
+export type { DedupeOptions };
@@ -0,0 +1,288 @@
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import type { AnyOperation } from './index.js';
+
+// Matches keys that can be written with dot notation (`user.name`)
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Normalize a Standard Schema issue path into dot/bracket notation, e.g. `users[0].email`
+export function formatIssuePath(path: StandardSchemaV1.Issue['path']): string {
+  if (!path) return '';
+
+  let formatted = '';
+  for (const segment of path) {
+    const key = typeof segment === 'object' ? segment.key : segment;
+
+    if (typeof key === 'number') {
+      formatted += `[${key}]`;
+    } else if (typeof key === 'symbol') {
+      formatted += `[${key.toString()}]`;
+    } else if (IDENTIFIER.test(key)) {
+      formatted += formatted ? `.${key}` : key;
+    } else {
+      formatted += `[${JSON.stringify(key)}]`;
+    }
+  }
+
+  return formatted;
+}
+
+// Shared shape of errors raised from Standard Schema issues
+export abstract class SchemaIssuesError extends Error {
+  readonly issues: ReadonlyArray<StandardSchemaV1.Issue>;
+  // Normalized path of each issue, in the same order as `issues` ('' for root-level issues)
+  readonly paths: ReadonlyArray<string>;
+  // Messages keyed by normalized path
+  readonly fieldErrors: Readonly<Record<string, string[]>>;
+  // Messages of issues without a path
+  readonly formErrors: ReadonlyArray<string>;
+  readonly operation: AnyOperation | undefined;
+
+  constructor(issues: ReadonlyArray<StandardSchemaV1.Issue>, options: { operation?: AnyOperation } = {}) {
+    super(JSON.stringify(issues, null, 2));
+    this.issues = issues;
+    this.paths = Array.from(issues, (issue) => formatIssuePath(issue.path));
+    this.operation = options.operation;
+
+    const fieldErrors: Record<string, string[]> = {};
+    const formErrors: string[] = [];
+    issues.forEach((issue, index) => {
+      const path = this.paths[index];
+      if (path) {
+        (fieldErrors[path] ??= []).push(issue.message);
+      } else {
+        formErrors.push(issue.message);
+      }
+    });
+    this.fieldErrors = fieldErrors;
+    this.formErrors = formErrors;
+  }
+}
+
+// Thrown when input fails its operation's schema
+export class ValidationError extends SchemaIssuesError {
+  constructor(issues: ReadonlyArray<StandardSchemaV1.Issue>, options: { operation?: AnyOperation } = {}) {
+    super(issues, options);
+    this.name = 'ValidationError';
+  }
+}
+
+// Thrown when a handler returns data that does not match its output schema
+export class OutputValidationError extends SchemaIssuesError {
+  constructor(issues: ReadonlyArray<StandardSchemaV1.Issue>, options: { operation?: AnyOperation } = {}) {
+    super(issues, options);
+    this.name = 'OutputValidationError';
+  }
+}
+
+// Thrown when a context factory fails, so it is not mistaken for a handler failure
+export class ContextResolutionError extends Error {
+  readonly cause: unknown;
+  readonly operation: AnyOperation | undefined;
+
+  constructor(cause: unknown, options: { operation?: AnyOperation } = {}) {
+    const target = options.operation?.name ? ` for "${options.operation.name}"` : '';
+    super(`Failed to resolve context${target}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'ContextResolutionError';
+    this.cause = cause;
+    this.operation = options.operation;
+  }
+}
+
+// Thrown when a router or transport is asked for an operation it does not have
+export class OperationNotFoundError extends Error {
+  readonly path: string;
+
+  constructor(path: string) {
+    super(`Operation "${path}" not found`);
+    this.name = 'OperationNotFoundError';
+    this.path = path;
+  }
+}
+
+// Thrown by client transports when the remote side answers with an error other than invalid input
+export class RemoteOperationError extends Error {
+  readonly path: string;
+  readonly status: number | undefined;
+  readonly code: string | undefined;
+
+  constructor(message: string, options: { path: string; status?: number; code?: string }) {
+    super(message);
+    this.name = 'RemoteOperationError';
+    this.path = options.path;
+    this.status = options.status;
+    this.code = options.code;
+  }
+}
+
+// Thrown when a schema cannot be described as JSON Schema, e.g. its vendor has no adapter
+export class JsonSchemaConversionError extends Error {
+  readonly vendor: string;
+  readonly cause: unknown;
+
+  constructor(message: string, options: { vendor: string; cause?: unknown }) {
+    super(message);
+    this.name = 'JsonSchemaConversionError';
+    this.vendor = options.vendor;
+    this.cause = options.cause;
+  }
+}
+
+// Thrown when an execution is cancelled through its `AbortSignal`. The handler is not awaited any
+// further, but keeps running unless it listens to the signal it was given
+export class OperationAbortedError extends Error {
+  readonly cause: unknown;
+  readonly operation: AnyOperation | undefined;
+
+  constructor(message: string, options: { operation?: AnyOperation; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'OperationAbortedError';
+    this.cause = options.cause;
+    this.operation = options.operation;
+  }
+}
+
+// Thrown when an execution outlives its timeout
+export class OperationTimeoutError extends OperationAbortedError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, options: { operation?: AnyOperation } = {}) {
+    const target = options.operation?.name ? ` "${options.operation.name}"` : '';
+    super(`Operation${target} timed out after ${timeoutMs}ms`, options);
+    this.name = 'OperationTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// Shared shape of errors raised when a policy turns an execution away before its handler runs
+export abstract class OperationRejectedError extends Error {
+  readonly operation: AnyOperation | undefined;
+
+  constructor(message: string, options: { operation?: AnyOperation } = {}) {
+    super(message);
+    this.operation = options.operation;
+  }
+}
+
+// Thrown when an operation already runs `max` executions and its queue is full
+export class ConcurrencyLimitError extends OperationRejectedError {
+  readonly max: number;
+  readonly maxQueued: number;
+  // The limit's key, for keyed limits
+  readonly key: string | undefined;
+
+  constructor(options: { operation?: AnyOperation; max: number; maxQueued: number; key?: string }) {
+    const target = options.operation?.name ? ` "${options.operation.name}"` : '';
+    const lane = options.key === undefined ? '' : ` for key "${options.key}"`;
+    super(
+      `Operation${target} is at its concurrency limit${lane} (${options.max} running, ${options.maxQueued} queued)`,
+      options,
+    );
+    this.name = 'ConcurrencyLimitError';
+    this.max = options.max;
+    this.maxQueued = options.maxQueued;
+    this.key = options.key;
+  }
+}
+
+// Thrown when an execution finds its rate limit bucket empty
+export class RateLimitError extends OperationRejectedError {
+  // Until the bucket has a token again
+  readonly retryAfterMs: number;
+  readonly key: string | undefined;
+
+  constructor(options: { operation?: AnyOperation; retryAfterMs: number; key?: string }) {
+    const target = options.operation?.name ? ` "${options.operation.name}"` : '';
+    super(`Operation${target} is rate limited; retry in ${options.retryAfterMs}ms`, options);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = options.retryAfterMs;
+    this.key = options.key;
+  }
+}
+
+// Thrown instead of running the handler while an operation's circuit breaker is open
+export class CircuitOpenError extends OperationRejectedError {
+  // Until the circuit lets a trial execution through; 0 while one is running
+  readonly retryAfterMs: number;
+
+  constructor(options: { operation?: AnyOperation; retryAfterMs: number }) {
+    const target = options.operation?.name ? ` "${options.operation.name}"` : '';
+    super(`Operation${target} has an open circuit; retry in ${options.retryAfterMs}ms`, options);
+    this.name = 'CircuitOpenError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export function isValidationError(error: unknown): error is ValidationError {
+  return error instanceof ValidationError;
+}
+
+export function isOutputValidationError(error: unknown): error is OutputValidationError {
+  return error instanceof OutputValidationError;
+}
+
+export function isContextResolutionError(error: unknown): error is ContextResolutionError {
+  return error instanceof ContextResolutionError;
+}
+
+export function isOperationNotFoundError(error: unknown): error is OperationNotFoundError {
+  return error instanceof OperationNotFoundError;
+}
+
+export function isRemoteOperationError(error: unknown): error is RemoteOperationError {
+  return error instanceof RemoteOperationError;
+}
+
+// Also true for timeouts
+export function isOperationAbortedError(error: unknown): error is OperationAbortedError {
+  return error instanceof OperationAbortedError;
+}
+
+export function isOperationTimeoutError(error: unknown): error is OperationTimeoutError {
+  return error instanceof OperationTimeoutError;
+}
+
+export function isConcurrencyLimitError(error: unknown): error is ConcurrencyLimitError {
+  return error instanceof ConcurrencyLimitError;
+}
+
+export function isRateLimitError(error: unknown): error is RateLimitError {
+  return error instanceof RateLimitError;
+}
+
+export function isCircuitOpenError(error: unknown): error is CircuitOpenError {
+  return error instanceof CircuitOpenError;
+}
+
+// Why an operation failed, as reported by `safeExecute`
+export type OperationFailure =
+  | { kind: 'validation'; error: ValidationError; issues: ReadonlyArray<StandardSchemaV1.Issue> }
+  | { kind: 'output'; error: OutputValidationError; issues: ReadonlyArray<StandardSchemaV1.Issue> }
+  | { kind: 'context'; error: ContextResolutionError }
+  | { kind: 'aborted'; error: OperationAbortedError }
+  | { kind: 'rejected'; error: OperationRejectedError }
+  | { kind: 'handler'; error: unknown };
+
+export function toOperationFailure(error: unknown): OperationFailure {
+  if (error instanceof ValidationError) {
+    return { kind: 'validation', error, issues: error.issues };
+  }
+  if (error instanceof OutputValidationError) {
+    return { kind: 'output', error, issues: error.issues };
+  }
+  if (error instanceof ContextResolutionError) {
+    return { kind: 'context', error };
+  }
+  if (error instanceof OperationAbortedError) {
+    return { kind: 'aborted', error };
+  }
+  if (error instanceof OperationRejectedError) {
+    return { kind: 'rejected', error };
+  }
+  return { kind: 'handler', error };
+}
+
+// Whether `error` rejects the input given to `operation` itself. Invalid input that a handler or a
+// later step passes to another operation is a server bug, not the caller's mistake
+export function isInputErrorOf(error: unknown, operation: AnyOperation): error is ValidationError {
+  return error instanceof ValidationError && error.operation === operation;
+}
@@ -1,34 +1,64 @@
 import z from 'zod';
+import { createRegistry, defineOperation, operationWithContextFactory } from './index.js';
 
-export const createUserOp = defineOperation<{ db: AppContext["DB"]}>( // We need to provide a type generic if context is not provided by factory
+interface User {
+  id: number;
+  name: string;
+  email: string;
+}
+
+interface AppContext {
+  DB: {
+    user: { create(args: { data: { name: string; email: string } }): Promise<User> };
+  };
+}
+
+export const createUserOp = defineOperation<{ db: AppContext['DB'] }>()(
+  // We need to provide a type generic if context is not provided by factory
   'createUser',
   async ({ input, ctx, schema }) => {
-    console.log(input);
-    return await ctx.db.user.create({ data: { name: input.name, email: input.email } })
+    return await ctx.db.user.create({ data: { name: input.name, email: input.email } });
   },
   z.object({ name: z.string(), email: z.string().email() }),
 );
 
-// Usage
-
-createUserOp.schema.shape;
-// Unvalidated handler call
-createUserOp.handler(input, ctx); // We provide ctx to individual ops when it is not prebound or provided by factory
-// Validated handler call
-createUserOp.execute(input, ctx);
-// OR we prebind the context like...
-const [createUser] = getOperation({ ctx, selector: (ops) => [ops.createUser] }); // type of ctx that we need to pass in should match the type provided during op definition
-// OR
-const { createUser } = getOperation({ ctx, selector: (ops) => ({ops.createUser})});
-// OR
-const createUser = getOperation({ ctx, selector: (ops) => ops.createUser});
 // OR We use a factory function to provide context at operation definition
-const defineOperationWithContext = operationWithContextFactory({ ctx })
-const createUser = defineOperationWithContext('createUser', // Notice no need to provide ctx type since it is provided by factory
+const defineOperationWithContext = operationWithContextFactory({ ctx: { appName: 'example' } });
+export const createUser = defineOperationWithContext(
+  'createUser', // Notice no need to provide ctx type since it is provided by factory
   ({ input, ctx, schema }) => {
-    console.log(input);
-    return { id: 1, name: input.name, email: input.email };
+    return { id: 1, name: input.name, email: input.email, createdBy: ctx.appName };
   },
-  z.object({ name: z.string(), email: z.string().email() }),)
-// And THEN in either case here (prebinding or using factory), we can simply call the function without passing in ctx, since it's already provided
-const user = await createUser({ name: 'Jason', email: 'jason@example.com' });
+  z.object({ name: z.string(), email: z.string().email() }),
+);
+
+// Usage
+export async function usage(db: AppContext['DB']) {
+  const input = { name: 'Jason', email: 'jason@example.com' };
+  const ctx = { db };
+
+  createUserOp.name; // 'createUser'
+  createUserOp.schema.shape;
+  // Unvalidated handler call
+  await createUserOp.handler({ input, ctx }); // We provide ctx to individual ops when it is not prebound or provided by factory
+  // Validated handler call
+  await createUserOp.execute(input, { ctx });
+
+  // OR we prebind the context: ctx must match the type provided during op definition
+  const registry = createRegistry(createUserOp);
+  const [createUserBound] = registry.getOperation({ ctx, selector: (ops) => [ops.createUser] });
+  // OR
+  const { createUser: createUserFromObject } = registry.getOperation({
+    ctx,
+    selector: (ops) => ({ createUser: ops.createUser }),
+  });
+  // OR
+  const createUserSingle = registry.getOperation({ ctx, selector: (ops) => ops.createUser });
+  await createUserBound(input);
+  await createUserFromObject(input);
+  await createUserSingle(input);
+
+  // With the factory the context is already provided
+  const user = await createUser.execute({ name: 'Jason', email: 'jason@example.com' });
+  return user;
+}
@@ -0,0 +1,136 @@
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import { isCircuitOpenError, isConcurrencyLimitError, isInputErrorOf, isRateLimitError } from './errors.js';
+import { toRouter } from './router.js';
+import type { Router, RouterTree } from './router.js';
+
+// JSON body of every non-2xx response
+interface HttpErrorBody {
+  error: {
+    code:
+      | 'PARSE_ERROR'
+      | 'VALIDATION_ERROR'
+      | 'NOT_FOUND'
+      | 'METHOD_NOT_ALLOWED'
+      | 'RATE_LIMITED'
+      | 'SERVICE_UNAVAILABLE'
+      | 'INTERNAL_SERVER_ERROR';
+    message: string;
+    issues?: ReadonlyArray<StandardSchemaV1.Issue>;
+  };
+}
+
+interface FetchHandlerOptions {
+  // Path prefix the handler is mounted under, e.g. '/api'
+  basePath?: string;
+  // Context passed to every operation, or a function building it from the request
+  ctx?: unknown | ((request: Request) => unknown);
+  // Called with errors that end up as 500 responses, e.g. for logging
+  onError?: (error: unknown, request: Request) => void;
+}
+
+type FetchHandler = (request: Request) => Promise<Response>;
+
+function json(body: unknown, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body ?? null), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+function errorResponse(status: number, error: HttpErrorBody['error'], headers?: Record<string, string>): Response {
+  const body: HttpErrorBody = { error };
+  return json(body, status, headers);
+}
+
+// `Retry-After` is in whole seconds
+function retryAfter(ms: number): Record<string, string> {
+  return { 'retry-after': String(Math.ceil(ms / 1000)) };
+}
+
+// Executions turned away by a policy: 429 while rate limited, 503 while the circuit is open or the
+// concurrency limit is full. Messages stay generic, as limit keys may name a tenant or user
+function rejectionResponse(error: unknown): Response | undefined {
+  if (isRateLimitError(error)) {
+    return errorResponse(429, { code: 'RATE_LIMITED', message: 'Too many requests' }, retryAfter(error.retryAfterMs));
+  }
+  const unavailable = { code: 'SERVICE_UNAVAILABLE', message: 'Service unavailable' } as const;
+  if (isCircuitOpenError(error)) {
+    return errorResponse(503, unavailable, retryAfter(error.retryAfterMs));
+  }
+  if (isConcurrencyLimitError(error)) {
+    return errorResponse(503, unavailable);
+  }
+  return undefined;
+}
+
+// '/api/users/create' under basePath '/api' maps to 'users.create'; malformed escapes match nothing
+function toOperationPath(pathname: string, basePath: string): string | undefined {
+  const base = basePath.replace(/\/+$/, '');
+  if (base && pathname !== base && !pathname.startsWith(`${base}/`)) {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(pathname.slice(base.length)).split('/').filter(Boolean).join('.');
+  } catch {
+    return undefined;
+  }
+}
+
+// GET reads `?input=<json>`, or else the query parameters as strings; POST reads a JSON body
+async function readInput(request: Request, url: URL): Promise<unknown> {
+  if (request.method === 'GET') {
+    const input = url.searchParams.get('input');
+    return input === null ? Object.fromEntries(url.searchParams) : JSON.parse(input);
+  }
+  const body = await request.text();
+  return body ? JSON.parse(body) : undefined;
+}
+
+// Serve operations over HTTP with the fetch-standard `Request`/`Response`, one path per operation:
+// 200 with the output, 400 with issues for invalid input, 404 for unknown operations, 429 or 503 when a
+// policy turns the execution away and 500 otherwise
+export function createFetchHandler(
+  operations: RouterTree | Router<any>,
+  options: FetchHandlerOptions = {},
+): FetchHandler {
+  const router = toRouter(operations);
+  const { basePath = '', ctx, onError } = options;
+
+  return async (request) => {
+    const url = new URL(request.url);
+    const path = toOperationPath(url.pathname, basePath);
+    const operation = path ? router.resolve(path) : undefined;
+    if (!path || !operation) {
+      return errorResponse(404, { code: 'NOT_FOUND', message: `Operation "${path ?? url.pathname}" not found` });
+    }
+    if (request.method !== 'GET' && request.method !== 'POST') {
+      return errorResponse(
+        405,
+        { code: 'METHOD_NOT_ALLOWED', message: `Method ${request.method} is not allowed` },
+        { allow: 'GET, POST' },
+      );
+    }
+
+    let input: unknown;
+    try {
+      input = await readInput(request, url);
+    } catch {
+      return errorResponse(400, { code: 'PARSE_ERROR', message: 'Request input is not valid JSON' });
+    }
+
+    try {
+      const context = typeof ctx === 'function' ? await ctx(request) : ctx;
+      return json(await router.call(path, input, context), 200);
+    } catch (error) {
+      if (isInputErrorOf(error, operation)) {
+        return errorResponse(400, { code: 'VALIDATION_ERROR', message: 'Invalid input', issues: error.issues });
+      }
+      const rejection = rejectionResponse(error);
+      if (rejection) return rejection;
+      onError?.(error, request);
+      return errorResponse(500, { code: 'INTERNAL_SERVER_ERROR', message: 'Internal server error' });
+    }
+  };
+}
+
+export type { FetchHandler, FetchHandlerOptions, HttpErrorBody };
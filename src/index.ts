@@ -1,4 +1,36 @@
 import type { StandardSchemaV1 } from '@standard-schema/spec';
+import {
+  ContextResolutionError,
+  OperationAbortedError,
+  OutputValidationError,
+  ValidationError,
+  toOperationFailure,
+} from './errors.js';
+import type { OperationFailure } from './errors.js';
+import { cachePolicy } from './cache.js';
+import type { CacheControls, CacheOptions } from './cache.js';
+import { circuitBreakerPolicy } from './circuit-breaker.js';
+import type { CircuitBreakerControls, CircuitBreakerOptions } from './circuit-breaker.js';
+import { concurrencyPolicy } from './concurrency.js';
+import type { ConcurrencyControls, ConcurrencyOptions } from './concurrency.js';
+import { dedupePolicy } from './dedupe.js';
+import type { DedupeOptions } from './dedupe.js';
+import type { Execution, Policy, PolicyFactory } from './policy.js';
+import { rateLimitPolicy } from './rate-limit.js';
+import type { RateLimitOptions } from './rate-limit.js';
+import { retryPolicy } from './retry.js';
+import type { RetryOptions } from './retry.js';
+import { createRouter, isOperation } from './router.js';
+import { checkTimeout, createExecutionSignal } from './signal.js';
+import type { Router, RouterTree } from './router.js';
+import type {
+  OperationInput as InputOf,
+  OperationOutput as OutputOf,
+  SelectedOperations,
+  SelectionContext,
+  SelectionContextOptions,
+  UnionToIntersection,
+} from './registry.js';
 
 // Type utilities for schema unwrapping
 type UnwrapSchema<T> = T extends StandardSchemaV1 ? T : never;
@@ -9,77 +41,407 @@ type ExtractOriginalSchema<T> = T;
 // Context type helper
 type InferContext<T> = T extends undefined ? never : T;
 
+// Output schema helpers: without an output schema the handler's return type is trusted as-is
+type HandlerOutput<TOutputSchema> = [TOutputSchema] extends [StandardSchemaV1]
+  ? StandardSchemaV1.InferInput<TOutputSchema>
+  : unknown;
+type OperationOutput<TOutput, TOutputSchema> = [TOutputSchema] extends [StandardSchemaV1]
+  ? StandardSchemaV1.InferOutput<TOutputSchema>
+  : TOutput;
+
+// Free-form operation metadata, handed to middleware. The documented keys are also read by
+// tooling such as `runCli` and `generateOpenApi`
+interface OperationMeta {
+  name?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  [key: string]: unknown;
+}
+
+declare const contextExtension: unique symbol;
+
+// What `next()` resolves with: the downstream output, branded with the context the middleware added
+interface MiddlewareResult<TExtension> {
+  readonly [contextExtension]?: TExtension;
+}
+
+// Middleware wraps the handler: call `next()` to continue, `next({ ctx })` to add context for
+// everything downstream, or return early to short-circuit
+interface MiddlewareArgs<TContext> {
+  input: unknown;
+  ctx: TContext;
+  meta: OperationMeta;
+  next: <TExtension extends object = {}>(opts?: { ctx: TExtension }) => Promise<MiddlewareResult<TExtension>>;
+}
+
+type Middleware<TContext = any, TResult = unknown> = (args: MiddlewareArgs<TContext>) => Promise<TResult>;
+
+// Context added by a middleware, read from the `next({ ctx })` results it returns
+type InferContextExtension<TResult> = [Extract<TResult, MiddlewareResult<any>>] extends [never]
+  ? {}
+  : Extract<TResult, MiddlewareResult<any>> extends MiddlewareResult<infer TExtension>
+    ? TExtension
+    : {};
+
+// Merge added context into the current one; an `undefined` (or `never`) base is replaced outright
+type ExtendContext<TContext, TExtension> = [keyof TExtension] extends [never]
+  ? TContext
+  : [TContext] extends [undefined]
+    ? TExtension
+    : {
+        [K in keyof TContext | keyof TExtension]: K extends keyof TExtension
+          ? TExtension[K]
+          : TContext[K & keyof TContext];
+      };
+
+// How `execute` accepts a context: `{ ctx?: T }` overrides a bound context, `{ ctx: T }` is required
+// when the operation only declared its context type
+type ContextOptions<TContext = unknown> = { ctx?: TContext } | { ctx: TContext };
+type ExecuteArgs<TContextOptions> = {} extends TContextOptions
+  ? [options?: TContextOptions & ExecuteOptions]
+  : [options: TContextOptions & ExecuteOptions];
+
+// Cancellation of a single `execute` call; rejects with an `OperationAbortedError` (or its
+// `OperationTimeoutError` subclass) once the signal aborts or the timeout passes
+interface ExecuteOptions {
+  signal?: AbortSignal;
+  // Overrides the operation's `.timeout()`; `Infinity` lifts it
+  timeoutMs?: number;
+}
+
+// Outcome of `safeExecute`: failures are returned instead of thrown
+type OperationResult<TOutput> = { ok: true; value: TOutput } | { ok: false; error: OperationFailure };
+
+// Passed to handlers next to `input` (and `ctx`)
+interface ExecutionInfo {
+  // 1 for the first run, counting up with each retry
+  attempt: number;
+  // Aborts when the caller cancels or the timeout passes; pass it on to stop pending work
+  signal: AbortSignal;
+}
+
 // Operation interface
-interface Operation<TInput, TOutput, TContext = never, TSchema extends StandardSchemaV1 = any> {
-  execute(input: TInput): Promise<TOutput>;
+interface Operation<
+  TInput,
+  TOutput,
+  TContext = never,
+  TSchema extends StandardSchemaV1 = any,
+  TOutputSchema extends StandardSchemaV1 | undefined = undefined,
+  TContextOptions extends ContextOptions = { ctx?: TContext },
+> {
+  execute(input: TInput, ...options: ExecuteArgs<TContextOptions>): Promise<TOutput>;
+  safeExecute(input: TInput, ...options: ExecuteArgs<TContextOptions>): Promise<OperationResult<TOutput>>;
   handler(args: [TContext] extends [never] ? { input: TInput } : { input: TInput; ctx: TContext }): Promise<TOutput>;
+  output<TNewOutputSchema extends StandardSchemaV1>(
+    schema: TNewOutputSchema,
+  ): Operation<
+    TInput,
+    StandardSchemaV1.InferOutput<TNewOutputSchema>,
+    TContext,
+    TSchema,
+    TNewOutputSchema,
+    TContextOptions
+  >;
   schema: TSchema;
+  outputSchema: TOutputSchema;
+  meta: OperationMeta;
+  name: string | undefined;
 }
 
+// Operation carrying a stable name, as returned by `defineOperation`
+type NamedOperation<TName extends string, TOperation extends AnyOperation = AnyOperation> = TOperation & {
+  readonly name: TName;
+};
+
+// Any operation, regardless of its input, output, context and schemas
+type AnyOperation = Operation<any, any, any, any, any, any>;
+
 // Builder interfaces for type-safe chaining
-interface OpaBuilder<TContext = undefined> {
-  operation: OperationBuilder<TContext>;
+interface OpaBuilder<TContext = undefined, TContextOptions extends ContextOptions = { ctx?: TContext }> {
+  operation: OperationBuilder<TContext, TContextOptions>;
+  use<TResult>(
+    middleware: Middleware<TContext, TResult>,
+  ): OpaBuilder<ExtendContext<TContext, InferContextExtension<TResult>>, TContextOptions>;
 }
 
-interface OperationBuilder<TContext = undefined> {
+interface OperationBuilder<TContext = undefined, TContextOptions extends ContextOptions = { ctx?: TContext }> {
+  use<TResult>(
+    middleware: Middleware<TContext, TResult>,
+  ): OperationBuilder<ExtendContext<TContext, InferContextExtension<TResult>>, TContextOptions>;
   input<TSchema extends StandardSchemaV1>(
     schema: TSchema,
-  ): OperationWithInput<StandardSchemaV1.InferInput<TSchema>, TSchema, TContext>;
+  ): OperationWithInput<StandardSchemaV1.InferInput<TSchema>, TSchema, TContext, undefined, TContextOptions>;
 }
 
-interface OperationWithInput<TInput, TSchema extends StandardSchemaV1, TContext = undefined> {
-  handler<TOutput>(
+// Members added to an operation by its policies, e.g. `invalidate()` from `.cache()`
+type WithControls<TOperation, TControls> = {} extends TControls ? TOperation : TOperation & TControls;
+
+interface OperationWithInput<
+  TInput,
+  TSchema extends StandardSchemaV1,
+  TContext = undefined,
+  TOutputSchema extends StandardSchemaV1 | undefined = undefined,
+  TContextOptions extends ContextOptions = { ctx?: TContext },
+  TControls extends object = {},
+> {
+  output<TNewOutputSchema extends StandardSchemaV1>(
+    schema: TNewOutputSchema,
+  ): OperationWithInput<TInput, TSchema, TContext, TNewOutputSchema, TContextOptions, TControls>;
+  meta(meta: OperationMeta): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls>;
+  // Re-run the handler (and its middleware) when it fails; invalid input never reaches it
+  retry(
+    options: RetryOptions,
+  ): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls>;
+  // Default time limit of every execution; `execute(input, { timeoutMs })` overrides it
+  timeout(ms: number): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls>;
+  // Serve results cached by validated input instead of running the handler again
+  cache(
+    options: CacheOptions<TInput, TContext>,
+  ): OperationWithInput<
+    TInput,
+    TSchema,
+    TContext,
+    TOutputSchema,
+    TContextOptions,
+    TControls & CacheControls<TInput, TContext>
+  >;
+  // Share one pending execution between concurrent calls with the same input
+  dedupe(
+    options?: DedupeOptions<TInput, TContext>,
+  ): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls>;
+  // Cap how many executions run at once, queueing the rest
+  concurrency(
+    options: ConcurrencyOptions<TInput, TContext>,
+  ): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls & ConcurrencyControls>;
+  // Token-bucket rate limit, per key when one is given
+  rateLimit(
+    options: RateLimitOptions<TInput, TContext>,
+  ): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls>;
+  // Fail fast, or fall back to another operation, while the handler keeps failing
+  circuitBreaker(
+    options: CircuitBreakerOptions,
+  ): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls & CircuitBreakerControls>;
+  handler<TOutput extends HandlerOutput<TOutputSchema>>(
     fn: [TContext] extends [never]
-      ? (args: { input: TInput }) => Promise<TOutput>
-      : (args: { input: TInput; ctx: TContext }) => Promise<TOutput>,
-  ): Operation<TInput, TOutput, TContext, TSchema>;
+      ? (args: { input: TInput } & ExecutionInfo) => Promise<TOutput>
+      : (args: { input: TInput; ctx: TContext } & ExecutionInfo) => Promise<TOutput>,
+  ): WithControls<
+    Operation<TInput, OperationOutput<TOutput, TOutputSchema>, TContext, TSchema, TOutputSchema, TContextOptions>,
+    TControls
+  >;
 }
 
 // Context builder interface
-interface OpaContextBuilder<TContext> {
-  create(): OpaBuilder<TContext>;
+interface OpaContextBuilder<TContext, TContextOptions extends ContextOptions = { ctx?: TContext }> {
+  create(): OpaBuilder<TContext, TContextOptions>;
 }
 
+// Produces the context for a single execution
+type ContextFactory<TContext> = () => TContext | PromiseLike<TContext>;
+
 // Factory interface
 interface OpaFactory {
   create(): OpaBuilder<undefined>;
+  context<TContext>(): OpaContextBuilder<TContext, { ctx: TContext }>;
+  context<TContext>(factory: ContextFactory<TContext>): OpaContextBuilder<TContext>;
   context<TContext>(ctx: TContext): OpaContextBuilder<TContext>;
+  router<const TTree extends RouterTree>(tree: TTree): Router<TTree>;
+}
+
+// Run a Standard Schema, resolving async validators
+async function runSchema<T extends StandardSchemaV1>(
+  schema: T,
+  value: unknown,
+): Promise<StandardSchemaV1.Result<StandardSchemaV1.InferOutput<T>>> {
+  let result = schema['~standard'].validate(value);
+  if (result instanceof Promise) result = await result;
+  return result;
 }
 
 // Validation helper using the existing standardValidate function
 async function validateInput<T extends StandardSchemaV1>(
   schema: T,
   input: unknown,
+  operation?: AnyOperation,
 ): Promise<StandardSchemaV1.InferOutput<T>> {
-  let result = schema['~standard'].validate(input);
-  if (result instanceof Promise) result = await result;
+  const result = await runSchema(schema, input);
+
+  if (result.issues) {
+    throw new ValidationError(result.issues, { operation });
+  }
+
+  return result.value;
+}
+
+// Checks a handler's return value against the operation's output contract
+async function validateOutput<T extends StandardSchemaV1>(
+  schema: T,
+  output: unknown,
+  operation?: AnyOperation,
+): Promise<StandardSchemaV1.InferOutput<T>> {
+  const result = await runSchema(schema, output);
 
   if (result.issues) {
-    throw new Error(JSON.stringify(result.issues, null, 2));
+    throw new OutputValidationError(result.issues, { operation });
   }
 
   return result.value;
 }
 
+// Everything an operation builder has collected so far
+interface OperationDef<TContext> {
+  schema: StandardSchemaV1;
+  outputSchema: StandardSchemaV1 | undefined;
+  context?: ContextFactory<TContext>;
+  middlewares: Middleware[];
+  meta: OperationMeta;
+  // Retries and other policies, outermost first
+  policies?: PolicyFactory[];
+  timeoutMs?: number;
+}
+
+// Functions are context factories; any other value is shared by every execution
+function toContextFactory<TContext>(ctx: TContext | ContextFactory<TContext>): ContextFactory<TContext> {
+  return typeof ctx === 'function' ? (ctx as ContextFactory<TContext>) : () => ctx;
+}
+
+// Stand-in factory for operations that declared a context type without binding one
+function requireContext(): never {
+  throw new Error('No context is bound to this operation; pass one with execute(input, { ctx })');
+}
+
+// Resolve the context for one execution, keeping factory failures apart from handler failures
+async function resolveContext<TContext>(
+  factory: ContextFactory<TContext> | undefined,
+  operation: AnyOperation,
+): Promise<TContext | undefined> {
+  if (!factory) return undefined;
+  try {
+    return await factory();
+  } catch (error) {
+    throw new ContextResolutionError(error, { operation });
+  }
+}
+
+// Run middlewares in declared order, outermost first, around the handler
+function runMiddlewares(
+  middlewares: Middleware[],
+  args: { input: unknown; ctx: unknown; meta: OperationMeta },
+  handler: (ctx: unknown) => Promise<unknown>,
+): Promise<unknown> {
+  const dispatch = async (index: number, ctx: unknown): Promise<any> => {
+    const middleware = middlewares[index];
+    if (!middleware) return handler(ctx);
+    return middleware({
+      ...args,
+      ctx,
+      next: (opts) => dispatch(index + 1, opts ? extendContext(ctx, opts.ctx) : ctx),
+    });
+  };
+  return dispatch(0, args.ctx);
+}
+
+// Copy the context with the extension added, keeping its prototype so class instances keep their methods
+function extendContext(ctx: unknown, extension: object | undefined): unknown {
+  const base = ctx !== null && typeof ctx === 'object' ? Object.create(Object.getPrototypeOf(ctx)) : {};
+  return Object.assign(base, ctx, extension);
+}
+
+// Run policies in declared order, outermost first, around the rest of the execution
+function runPolicies(
+  policies: Policy[],
+  execution: Execution,
+  run: (execution: Execution) => Promise<unknown>,
+): Promise<unknown> {
+  const dispatch = (index: number, current: Execution): Promise<unknown> => {
+    const policy = policies[index];
+    return policy ? policy(current, (next) => dispatch(index + 1, next)) : run(current);
+  };
+  return dispatch(0, execution);
+}
+
 // Implementation classes
-class OperationImpl<TInput, TOutput, TContext = never, TSchema extends StandardSchemaV1 = any>
-  implements Operation<TInput, TOutput, TContext, TSchema>
+class OperationImpl<
+  TInput,
+  TOutput,
+  TContext = never,
+  TSchema extends StandardSchemaV1 = any,
+  TOutputSchema extends StandardSchemaV1 | undefined = undefined,
+  TContextOptions extends ContextOptions = { ctx?: TContext },
+> implements Operation<TInput, TOutput, TContext, TSchema, TOutputSchema, TContextOptions>
 {
+  private _policies: Policy[];
+
   constructor(
-    private _schema: TSchema,
+    private _def: OperationDef<TContext>,
     private _handler: any,
-    private _context?: TContext,
-  ) {}
+  ) {
+    // Each operation gets its own policy state (cached results, counters), and the members they add
+    const setups = (_def.policies ?? []).map((create) => create(this));
+    this._policies = setups.map((setup) => setup.policy);
+    for (const setup of setups) Object.assign(this, setup.controls);
+  }
+
+  async execute(input: TInput, ...[options]: ExecuteArgs<TContextOptions>): Promise<TOutput> {
+    return this._execute(input, options, true);
+  }
+
+  // Execution with input validation made optional, for steps of composed operations
+  async _execute(
+    input: unknown,
+    options: ({ ctx?: unknown } & ExecuteOptions) | undefined,
+    validate: boolean,
+  ): Promise<TOutput> {
+    if (options?.timeoutMs !== undefined) checkTimeout(options.timeoutMs, 'execute() timeoutMs');
+    const timeoutMs = options?.timeoutMs ?? this._def.timeoutMs;
+    const { signal, aborted, dispose } = createExecutionSignal(options?.signal, timeoutMs, this);
+    try {
+      if (signal.aborted) throw signal.reason;
+      // Stop waiting as soon as the signal aborts, whether or not the handler listens to it
+      return await Promise.race([this._start(input, options?.ctx, signal, validate), aborted]);
+    } finally {
+      dispose();
+    }
+  }
 
-  async execute(input: TInput): Promise<TOutput> {
+  private async _start(input: unknown, ctx: unknown, signal: AbortSignal, validate: boolean): Promise<TOutput> {
     // Validate input using standard schema
-    const validatedInput = await validateInput(this._schema, input);
+    const validatedInput = validate ? await validateInput(this._def.schema, input, this) : input;
+    // The caller has stopped waiting, so nothing further may run on its behalf
+    if (signal.aborted) throw signal.reason;
+
+    // A per-call context takes precedence over the bound one
+    const context = ctx !== undefined ? ctx : await resolveContext(this._def.context, this);
+    if (signal.aborted) throw signal.reason;
+
+    const execution = { input: validatedInput, ctx: context, ctxGiven: ctx !== undefined, attempt: 1, signal };
+    return runPolicies(this._policies, execution, (current) => this._run(current)) as Promise<TOutput>;
+  }
+
+  private async _run({ input, ctx: context, attempt, signal }: Execution): Promise<TOutput> {
+    // Call handler with validated input, wrapped in any middleware
+    const { middlewares, meta } = this._def;
+    const output = await runMiddlewares(middlewares, { input, ctx: context, meta }, (ctx) => {
+      if (signal.aborted) throw signal.reason;
+      if (ctx !== undefined) {
+        return this._handler({ input, ctx, attempt, signal });
+      }
+      return this._handler({ input, attempt, signal });
+    });
 
-    // Call handler with validated input
-    if (this._context !== undefined) {
-      return this._handler({ input: validatedInput, ctx: this._context });
-    } else {
-      return this._handler({ input: validatedInput });
+    // Hold the handler to its output contract when one was declared
+    if (this._def.outputSchema) {
+      return validateOutput(this._def.outputSchema, output, this) as Promise<TOutput>;
+    }
+    return output as TOutput;
+  }
+
+  async safeExecute(input: TInput, ...options: ExecuteArgs<TContextOptions>): Promise<OperationResult<TOutput>> {
+    try {
+      return { ok: true, value: await this.execute(input, ...options) };
+    } catch (error) {
+      return { ok: false, error: toOperationFailure(error) };
     }
   }
 
@@ -87,50 +449,202 @@ class OperationImpl<TInput, TOutput, TContext = never, TSchema extends StandardS
     return this._handler(args);
   }
 
+  output<TNewOutputSchema extends StandardSchemaV1>(
+    schema: TNewOutputSchema,
+  ): Operation<
+    TInput,
+    StandardSchemaV1.InferOutput<TNewOutputSchema>,
+    TContext,
+    TSchema,
+    TNewOutputSchema,
+    TContextOptions
+  > {
+    return new OperationImpl({ ...this._def, outputSchema: schema }, this._handler);
+  }
+
   get schema() {
-    return this._schema;
+    return this._def.schema as TSchema;
+  }
+
+  get outputSchema() {
+    return this._def.outputSchema as TOutputSchema;
+  }
+
+  get meta() {
+    return this._def.meta;
+  }
+
+  get name() {
+    return this._def.meta.name;
   }
 }
 
-class OperationWithInputImpl<TInput, TSchema extends StandardSchemaV1, TContext = undefined>
-  implements OperationWithInput<TInput, TSchema, TContext>
+class OperationWithInputImpl<
+  TInput,
+  TSchema extends StandardSchemaV1,
+  TContext = undefined,
+  TOutputSchema extends StandardSchemaV1 | undefined = undefined,
+  TContextOptions extends ContextOptions = { ctx?: TContext },
+  TControls extends object = {},
+> implements OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls>
 {
-  constructor(
-    private _schema: TSchema,
-    private _context?: TContext,
-  ) {}
+  constructor(private _def: OperationDef<TContext>) {}
+
+  output<TNewOutputSchema extends StandardSchemaV1>(
+    schema: TNewOutputSchema,
+  ): OperationWithInput<TInput, TSchema, TContext, TNewOutputSchema, TContextOptions, TControls> {
+    return new OperationWithInputImpl({ ...this._def, outputSchema: schema });
+  }
+
+  meta(meta: OperationMeta): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls> {
+    return new OperationWithInputImpl({ ...this._def, meta: { ...this._def.meta, ...meta } });
+  }
+
+  retry(
+    options: RetryOptions,
+  ): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls> {
+    return new OperationWithInputImpl({
+      ...this._def,
+      policies: [...(this._def.policies ?? []), retryPolicy(options)],
+    });
+  }
+
+  cache(
+    options: CacheOptions<TInput, TContext>,
+  ): OperationWithInput<
+    TInput,
+    TSchema,
+    TContext,
+    TOutputSchema,
+    TContextOptions,
+    TControls & CacheControls<TInput, TContext>
+  > {
+    return new OperationWithInputImpl({
+      ...this._def,
+      policies: [...(this._def.policies ?? []), cachePolicy(options)],
+    });
+  }
+
+  dedupe(
+    options?: DedupeOptions<TInput, TContext>,
+  ): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls> {
+    return new OperationWithInputImpl({
+      ...this._def,
+      policies: [...(this._def.policies ?? []), dedupePolicy(options)],
+    });
+  }
+
+  concurrency(
+    options: ConcurrencyOptions<TInput, TContext>,
+  ): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls & ConcurrencyControls> {
+    return new OperationWithInputImpl<
+      TInput,
+      TSchema,
+      TContext,
+      TOutputSchema,
+      TContextOptions,
+      TControls & ConcurrencyControls
+    >({
+      ...this._def,
+      policies: [...(this._def.policies ?? []), concurrencyPolicy(options)],
+    });
+  }
+
+  rateLimit(
+    options: RateLimitOptions<TInput, TContext>,
+  ): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls> {
+    return new OperationWithInputImpl({
+      ...this._def,
+      policies: [...(this._def.policies ?? []), rateLimitPolicy(options)],
+    });
+  }
 
-  handler<TOutput>(
+  circuitBreaker(
+    options: CircuitBreakerOptions,
+  ): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls & CircuitBreakerControls> {
+    return new OperationWithInputImpl<
+      TInput,
+      TSchema,
+      TContext,
+      TOutputSchema,
+      TContextOptions,
+      TControls & CircuitBreakerControls
+    >({
+      ...this._def,
+      policies: [...(this._def.policies ?? []), circuitBreakerPolicy(options)],
+    });
+  }
+
+  timeout(ms: number): OperationWithInput<TInput, TSchema, TContext, TOutputSchema, TContextOptions, TControls> {
+    checkTimeout(ms, 'timeout()');
+    return new OperationWithInputImpl({ ...this._def, timeoutMs: ms });
+  }
+
+  handler<TOutput extends HandlerOutput<TOutputSchema>>(
     fn: [TContext] extends [never]
-      ? (args: { input: TInput }) => Promise<TOutput>
-      : (args: { input: TInput; ctx: TContext }) => Promise<TOutput>,
-  ): Operation<TInput, TOutput, TContext, TSchema> {
-    return new OperationImpl<TInput, TOutput, TContext, TSchema>(this._schema, fn, this._context);
+      ? (args: { input: TInput } & ExecutionInfo) => Promise<TOutput>
+      : (args: { input: TInput; ctx: TContext } & ExecutionInfo) => Promise<TOutput>,
+  ): WithControls<
+    Operation<TInput, OperationOutput<TOutput, TOutputSchema>, TContext, TSchema, TOutputSchema, TContextOptions>,
+    TControls
+  > {
+    return new OperationImpl(this._def, fn) as any;
   }
 }
 
-class OperationBuilderImpl<TContext = undefined> implements OperationBuilder<TContext> {
-  constructor(private _context?: TContext) {}
+class OperationBuilderImpl<TContext = undefined, TContextOptions extends ContextOptions = { ctx?: TContext }>
+  implements OperationBuilder<TContext, TContextOptions>
+{
+  constructor(
+    private _context?: ContextFactory<TContext>,
+    private _middlewares: Middleware[] = [],
+  ) {}
+
+  use<TResult>(
+    middleware: Middleware<TContext, TResult>,
+  ): OperationBuilder<ExtendContext<TContext, InferContextExtension<TResult>>, TContextOptions> {
+    return new OperationBuilderImpl<any, TContextOptions>(this._context, [...this._middlewares, middleware]);
+  }
 
   input<TSchema extends StandardSchemaV1>(
     schema: TSchema,
-  ): OperationWithInput<StandardSchemaV1.InferInput<TSchema>, TSchema, TContext> {
-    return new OperationWithInputImpl(schema, this._context);
+  ): OperationWithInput<StandardSchemaV1.InferInput<TSchema>, TSchema, TContext, undefined, TContextOptions> {
+    return new OperationWithInputImpl({
+      schema,
+      outputSchema: undefined,
+      context: this._context,
+      middlewares: this._middlewares,
+      meta: {},
+    });
   }
 }
 
-class OpaBuilderImpl<TContext = undefined> implements OpaBuilder<TContext> {
-  constructor(private _context?: TContext) {}
+class OpaBuilderImpl<TContext = undefined, TContextOptions extends ContextOptions = { ctx?: TContext }>
+  implements OpaBuilder<TContext, TContextOptions>
+{
+  constructor(
+    private _context?: ContextFactory<TContext>,
+    private _middlewares: Middleware[] = [],
+  ) {}
 
-  get operation(): OperationBuilder<TContext> {
-    return new OperationBuilderImpl(this._context);
+  // Middleware added here wraps every operation built from this builder
+  use<TResult>(
+    middleware: Middleware<TContext, TResult>,
+  ): OpaBuilder<ExtendContext<TContext, InferContextExtension<TResult>>, TContextOptions> {
+    return new OpaBuilderImpl<any, TContextOptions>(this._context, [...this._middlewares, middleware]);
+  }
+
+  get operation(): OperationBuilder<TContext, TContextOptions> {
+    return new OperationBuilderImpl(this._context, this._middlewares);
   }
 }
 
-class OpaContextBuilderImpl<TContext> implements OpaContextBuilder<TContext> {
-  constructor(private _context: TContext) {}
+class OpaContextBuilderImpl<TContext, TContextOptions extends ContextOptions = { ctx?: TContext }>
+  implements OpaContextBuilder<TContext, TContextOptions>
+{
+  constructor(private _context: ContextFactory<TContext>) {}
 
-  create(): OpaBuilder<TContext> {
+  create(): OpaBuilder<TContext, TContextOptions> {
     return new OpaBuilderImpl(this._context);
   }
 }
@@ -141,8 +655,21 @@ export class Opa implements OpaFactory {
     return new OpaBuilderImpl();
   }
 
-  static context<TContext>(ctx: TContext): OpaContextBuilder<TContext> {
-    return new OpaContextBuilderImpl(ctx);
+  // Without an argument only the context type is declared and `execute` must be given `{ ctx }`.
+  // A function is treated as a factory and called on every execute; any other value is shared as-is
+  static context<TContext>(): OpaContextBuilder<TContext, { ctx: TContext }>;
+  static context<TContext>(factory: ContextFactory<TContext>): OpaContextBuilder<TContext>;
+  static context<TContext>(ctx: TContext): OpaContextBuilder<TContext>;
+  static context<TContext>(...args: [] | [TContext | ContextFactory<TContext>]): OpaContextBuilder<TContext, any> {
+    if (args.length === 0) {
+      return new OpaContextBuilderImpl<TContext>(requireContext);
+    }
+    return new OpaContextBuilderImpl(toContextFactory(args[0]));
+  }
+
+  // Group operations under namespaces, addressable by dotted path ('users.create')
+  static router<const TTree extends RouterTree>(tree: TTree): Router<TTree> {
+    return createRouter(tree);
   }
 
   // Instance methods (for potential future use)
@@ -150,13 +677,445 @@ export class Opa implements OpaFactory {
     return Opa.create();
   }
 
-  context<TContext>(ctx: TContext): OpaContextBuilder<TContext> {
-    return Opa.context(ctx);
+  context<TContext>(): OpaContextBuilder<TContext, { ctx: TContext }>;
+  context<TContext>(factory: ContextFactory<TContext>): OpaContextBuilder<TContext>;
+  context<TContext>(ctx: TContext): OpaContextBuilder<TContext>;
+  context<TContext>(...args: [] | [TContext | ContextFactory<TContext>]): OpaContextBuilder<TContext, any> {
+    return args.length === 0 ? Opa.context<TContext>() : Opa.context<TContext>(args[0] as TContext);
+  }
+
+  router<const TTree extends RouterTree>(tree: TTree): Router<TTree> {
+    return Opa.router(tree);
   }
 }
 
 // Standalone operation creator
 export const op: OperationBuilder<undefined> = new OperationBuilderImpl();
 
+// Handler of a named operation also receives its schema
+type DefinedHandlerArgs<TInput, TContext, TSchema> = [TContext] extends [never]
+  ? { input: TInput; schema: TSchema }
+  : { input: TInput; ctx: TContext; schema: TSchema };
+
+interface DefineOperation<TContext, TContextOptions extends ContextOptions> {
+  <TName extends string, TSchema extends StandardSchemaV1, TOutput>(
+    name: TName,
+    handler: (
+      args: DefinedHandlerArgs<StandardSchemaV1.InferInput<TSchema>, TContext, TSchema>,
+    ) => TOutput | Promise<TOutput>,
+    schema: TSchema,
+  ): NamedOperation<
+    TName,
+    Operation<StandardSchemaV1.InferInput<TSchema>, Awaited<TOutput>, TContext, TSchema, undefined, TContextOptions>
+  >;
+}
+
+function createDefineOperation<TContext, TContextOptions extends ContextOptions>(
+  context: ContextFactory<TContext> | undefined,
+): DefineOperation<TContext, TContextOptions> {
+  return (name, handler, schema) =>
+    new OperationImpl(
+      { schema, outputSchema: undefined, context, middlewares: [], meta: { name } },
+      async (args: any) => handler({ ...args, schema }),
+    ) as any;
+}
+
+// Define a named operation. TypeScript cannot infer the remaining generics once one is given
+// explicitly, so a context type is declared with `defineOperation<TContext>()`, which returns a
+// definer whose operations take `{ ctx }` on execute.
+export function defineOperation<TContext>(): DefineOperation<TContext, { ctx: TContext }>;
+export function defineOperation<TName extends string, TSchema extends StandardSchemaV1, TOutput>(
+  name: TName,
+  handler: (args: { input: StandardSchemaV1.InferInput<TSchema>; schema: TSchema }) => TOutput | Promise<TOutput>,
+  schema: TSchema,
+): NamedOperation<TName, Operation<StandardSchemaV1.InferInput<TSchema>, Awaited<TOutput>, never, TSchema>>;
+export function defineOperation(...args: [] | Parameters<DefineOperation<never, { ctx?: never }>>): any {
+  if (args.length === 0) {
+    return createDefineOperation(requireContext);
+  }
+  return createDefineOperation(undefined)(...args);
+}
+
+// Bind a context (or context factory) once, so operations defined with the result need no context type
+export function operationWithContextFactory<TContext>(options: {
+  ctx: ContextFactory<TContext>;
+}): DefineOperation<TContext, { ctx?: TContext }>;
+export function operationWithContextFactory<TContext>(options: {
+  ctx: TContext;
+}): DefineOperation<TContext, { ctx?: TContext }>;
+export function operationWithContextFactory<TContext>(options: {
+  ctx: TContext | ContextFactory<TContext>;
+}): DefineOperation<TContext, { ctx?: TContext }> {
+  return createDefineOperation(toContextFactory(options.ctx));
+}
+
+// Steps of a composed operation receive its per-call context, or resolve their own when none is
+// given, and its signal
+function executeStep(
+  step: AnyOperation,
+  input: unknown,
+  { ctx, signal }: { ctx?: unknown; signal: AbortSignal },
+  validate: boolean,
+): Promise<unknown> {
+  const options = ctx === undefined ? { signal } : { ctx, signal };
+  return step instanceof OperationImpl ? step._execute(input, options, validate) : step.execute(input, options);
+}
+
+type ComposedHandler = (args: { input: unknown; ctx?: unknown; signal: AbortSignal }) => Promise<unknown>;
+
+class ComposedOperationImpl extends OperationImpl<any, any, any, any, any, any> {
+  constructor(
+    def: OperationDef<any>,
+    handler: ComposedHandler,
+    readonly steps: ReadonlyArray<AnyOperation>,
+  ) {
+    super(def, handler);
+  }
+}
+
+type AcceptsInput<TInput> = { execute: (input: TInput, ...options: any[]) => Promise<unknown> };
+type PreviousIndex = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19];
+
+// Every step after the first must accept the previous step's output
+type PipeSteps<TSteps extends readonly AnyOperation[]> = {
+  [K in keyof TSteps]: K extends `${infer TIndex extends number}`
+    ? TIndex extends 0
+      ? TSteps[K]
+      : TSteps[K] & AcceptsInput<OutputOf<TSteps[PreviousIndex[TIndex]]>>
+    : TSteps[K];
+};
+
+type LastStep<TSteps extends readonly AnyOperation[]> = TSteps extends readonly [
+  ...AnyOperation[],
+  infer TLast extends AnyOperation,
+]
+  ? TLast
+  : never;
+
+type PipedOperation<TSteps extends readonly [AnyOperation, ...AnyOperation[]]> = Operation<
+  InputOf<TSteps[0]>,
+  OutputOf<LastStep<TSteps>>,
+  SelectionContext<TSteps>,
+  TSteps[0]['schema'],
+  undefined,
+  SelectionContextOptions<TSteps>
+> & { readonly steps: TSteps };
+
+interface PipeOptions {
+  // Validate each step's input; `false` trusts the previous step's output (the first step always validates)
+  revalidate?: boolean;
+}
+
+// Run operations in sequence, each receiving the previous output. The context given to `execute`
+// is shared by every step
+export function pipe<const TSteps extends readonly [AnyOperation, ...AnyOperation[]]>(
+  ...steps: PipeSteps<TSteps>
+): PipedOperation<TSteps>;
+export function pipe<const TSteps extends readonly [AnyOperation, ...AnyOperation[]]>(
+  options: PipeOptions,
+  ...steps: PipeSteps<TSteps>
+): PipedOperation<TSteps>;
+export function pipe(...args: Array<PipeOptions | AnyOperation>): any {
+  const [options, steps] = isOperation(args[0])
+    ? [{}, args as AnyOperation[]]
+    : [args[0] as PipeOptions, args.slice(1) as AnyOperation[]];
+  if (steps.length === 0) {
+    throw new TypeError('pipe() needs at least one operation');
+  }
+  const { revalidate = true } = options;
+
+  return new ComposedOperationImpl(
+    { schema: steps[0].schema, outputSchema: undefined, middlewares: [], meta: {} },
+    async ({ input, ...args }) => {
+      let value = input;
+      for (const [index, step] of steps.entries()) {
+        // The pipe validated the first step's input as its own, so invalid input is reported against the pipe
+        value = await executeStep(step, value, args, index > 0 && revalidate);
+      }
+      return value;
+    },
+    steps,
+  );
+}
+
+// Standard Schema standing in for the schemas of composed operations, so they can still be
+// introspected and converted: the input must pass every schema ('allOf') or be an array of items
+// passing the single schema ('array')
+interface CombinedSchema<TInput = unknown> extends StandardSchemaV1<TInput> {
+  readonly kind: 'allOf' | 'array';
+  readonly schemas: ReadonlyArray<StandardSchemaV1>;
+}
+
+function combineSchemas(kind: 'allOf' | 'array', schemas: StandardSchemaV1[]): CombinedSchema {
+  const validate = async (value: unknown): Promise<StandardSchemaV1.Result<unknown>> => {
+    if (kind === 'allOf') {
+      const results = await Promise.all(schemas.map((schema) => runSchema(schema, value)));
+      const issues = results.flatMap((result) => result.issues ?? []);
+      return issues.length > 0 ? { issues } : { value };
+    }
+
+    if (!Array.isArray(value)) {
+      return { issues: [{ message: 'Expected an array' }] };
+    }
+    const results = await Promise.all(value.map((item) => runSchema(schemas[0], item)));
+    // Item issues are reported at their index
+    const issues = results.flatMap((result, index) =>
+      (result.issues ?? []).map((issue) => ({ ...issue, path: [index, ...(issue.path ?? [])] })),
+    );
+    return issues.length > 0 ? { issues } : { value: results.map((result) => (result as { value: unknown }).value) };
+  };
+
+  return { '~standard': { version: 1, vendor: '0pa', validate }, kind, schemas };
+}
+
+// Outcome of one branch in settle mode, as `safeExecute` would report it
+function settle<T>(promise: Promise<T>): Promise<OperationResult<T>> {
+  return promise.then(
+    (value) => ({ ok: true, value }),
+    (error) => ({ ok: false, error: toOperationFailure(error) }),
+  );
+}
+
+// Run composed steps under a signal of their own, aborted once the result is decided, so steps
+// still running (the losers of a race, the rest after a failure) are cancelled
+async function cancelUnfinishedSteps<T>(signal: AbortSignal, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal.reason);
+  signal.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await run(controller.signal);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+    controller.abort(new OperationAbortedError('Step was cancelled because its composed operation settled first'));
+  }
+}
+
+// Run `fn` over every item with at most `limit` calls in flight, keeping results in order.
+// No new calls start once one has failed
+async function mapWithConcurrency<T, R>(
+  items: ReadonlyArray<T>,
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+type Branches = readonly AnyOperation[] | { readonly [key: string]: AnyOperation };
+
+// Branches all receive the same input, so it must satisfy each of them
+type BranchesInput<TBranches> = UnionToIntersection<InputOf<Extract<SelectedOperations<TBranches>, AnyOperation>>>;
+
+type BranchesOutput<TBranches, TSettle extends boolean> = {
+  -readonly [K in keyof TBranches]: TBranches[K] extends AnyOperation
+    ? TSettle extends true
+      ? OperationResult<OutputOf<TBranches[K]>>
+      : OutputOf<TBranches[K]>
+    : never;
+};
+
+type ComposedOperation<TInput, TOutput, TOperations> = Operation<
+  TInput,
+  TOutput,
+  SelectionContext<TOperations>,
+  CombinedSchema<TInput>,
+  undefined,
+  SelectionContextOptions<TOperations>
+> & { readonly steps: ReadonlyArray<AnyOperation> };
+
+interface SettleOptions<TSettle extends boolean = boolean> {
+  // Resolve with a result per branch (as `safeExecute` does) instead of rejecting on the first failure
+  settle?: TSettle;
+}
+
+interface MapOptions<TSettle extends boolean = boolean> extends SettleOptions<TSettle> {
+  // Most items executed at once (default: all of them)
+  concurrency?: number;
+}
+
+function composeBranches(
+  branches: Branches,
+  run: (operations: AnyOperation[], ...args: Parameters<ComposedHandler>) => Promise<unknown>,
+): ComposedOperationImpl {
+  const operations = Object.values(branches);
+  return new ComposedOperationImpl(
+    {
+      schema: combineSchemas(
+        'allOf',
+        operations.map((operation) => operation.schema),
+      ),
+      outputSchema: undefined,
+      middlewares: [],
+      meta: {},
+    },
+    (args) => run(operations, args),
+    operations,
+  );
+}
+
+// Run operations concurrently on the same input, resolving with their outputs in the same
+// record or tuple shape
+export function all<const TBranches extends Branches>(
+  branches: TBranches,
+  options?: SettleOptions<false>,
+): ComposedOperation<BranchesInput<TBranches>, BranchesOutput<TBranches, false>, TBranches>;
+export function all<const TBranches extends Branches>(
+  branches: TBranches,
+  options: SettleOptions<true>,
+): ComposedOperation<BranchesInput<TBranches>, BranchesOutput<TBranches, true>, TBranches>;
+export function all(branches: Branches, options: SettleOptions = {}): any {
+  return composeBranches(branches, (operations, { input, ctx, signal }) =>
+    cancelUnfinishedSteps(signal, async (stepSignal) => {
+      // Branches validate again to get their own transformed input
+      const pending = operations.map((operation) => executeStep(operation, input, { ctx, signal: stepSignal }, true));
+      const outputs = await (options.settle ? Promise.all(pending.map(settle)) : Promise.all(pending));
+
+      if (Array.isArray(branches)) return outputs;
+      return Object.fromEntries(Object.keys(branches).map((key, index) => [key, outputs[index]]));
+    }),
+  );
+}
+
+// Run operations concurrently on the same input, settling like the first of them to settle
+export function race<const TBranches extends Branches>(
+  branches: TBranches,
+): ComposedOperation<
+  BranchesInput<TBranches>,
+  OutputOf<Extract<SelectedOperations<TBranches>, AnyOperation>>,
+  TBranches
+> {
+  return composeBranches(branches, (operations, { input, ctx, signal }) =>
+    cancelUnfinishedSteps(signal, (stepSignal) =>
+      Promise.race(operations.map((operation) => executeStep(operation, input, { ctx, signal: stepSignal }, true))),
+    ),
+  );
+}
+
+// Run an operation over every item of an array input. Items are validated up front, with issues
+// reported at their index
+export function map<TOperation extends AnyOperation>(
+  operation: TOperation,
+  options?: MapOptions<false>,
+): ComposedOperation<InputOf<TOperation>[], OutputOf<TOperation>[], TOperation>;
+export function map<TOperation extends AnyOperation>(
+  operation: TOperation,
+  options: MapOptions<true>,
+): ComposedOperation<InputOf<TOperation>[], OperationResult<OutputOf<TOperation>>[], TOperation>;
+export function map(operation: AnyOperation, options: MapOptions = {}): any {
+  const { concurrency = Infinity, settle: settleItems = false } = options;
+  if (!(concurrency >= 1)) {
+    throw new RangeError('map() concurrency must be at least 1');
+  }
+
+  return new ComposedOperationImpl(
+    { schema: combineSchemas('array', [operation.schema]), outputSchema: undefined, middlewares: [], meta: {} },
+    ({ input, ctx, signal }) =>
+      cancelUnfinishedSteps(signal, (stepSignal) =>
+        mapWithConcurrency(input as unknown[], concurrency, (item) => {
+          // Items were validated with the array
+          const output = executeStep(operation, item, { ctx, signal: stepSignal }, false);
+          return settleItems ? settle(output) : output;
+        }),
+      ),
+    [operation],
+  );
+}
+
+export { createRegistry } from './registry.js';
+export type { Registry, BoundOperation, OperationInput, OperationOutput, OperationContext } from './registry.js';
+export type { Router, RouterTree, RouterPath, RouterOperation, RouterInput, RouterOutput } from './router.js';
+export { createFetchHandler } from './http.js';
+export type { FetchHandler, FetchHandlerOptions, HttpErrorBody } from './http.js';
+export { handleJsonRpc, JsonRpcErrorCode } from './json-rpc.js';
+export type { JsonRpcId, JsonRpcRequest, JsonRpcResponse, JsonRpcError, JsonRpcOptions } from './json-rpc.js';
+export { createClient, inProcessTransport, fetchTransport } from './client.js';
+export type { Client, ClientOptions, ClientTransport } from './client.js';
+export { runCli } from './cli.js';
+export type { CliIO, CliOptions } from './cli.js';
+export { toJsonSchema, registerJsonSchemaAdapter } from './json-schema.js';
+export type { JsonSchema, JsonSchemaAdapter, OperationJsonSchema } from './json-schema.js';
+export { generateOpenApi } from './openapi.js';
+export type { OpenApiDocument, OpenApiOperation, OpenApiOptions, OpenApiResponse } from './openapi.js';
+export type { Clock } from './policy.js';
+export type { Backoff, RetryOptions } from './retry.js';
+export { createMemoryCacheStore } from './cache.js';
+export type { CacheControls, CacheEntry, CacheOptions, CacheStore } from './cache.js';
+export type { DedupeOptions } from './dedupe.js';
+export type { ConcurrencyControls, ConcurrencyOptions, ConcurrencyStats } from './concurrency.js';
+export { createMemoryRateLimitStore } from './rate-limit.js';
+export type { RateLimitDecision, RateLimitOptions, RateLimitStore, TokenBucket } from './rate-limit.js';
+export type {
+  CircuitBreakerControls,
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitStateChange,
+} from './circuit-breaker.js';
+
+export {
+  SchemaIssuesError,
+  ValidationError,
+  OutputValidationError,
+  ContextResolutionError,
+  OperationNotFoundError,
+  RemoteOperationError,
+  JsonSchemaConversionError,
+  OperationAbortedError,
+  OperationTimeoutError,
+  OperationRejectedError,
+  ConcurrencyLimitError,
+  RateLimitError,
+  CircuitOpenError,
+  isValidationError,
+  isOutputValidationError,
+  isContextResolutionError,
+  isOperationNotFoundError,
+  isRemoteOperationError,
+  isOperationAbortedError,
+  isOperationTimeoutError,
+  isConcurrencyLimitError,
+  isRateLimitError,
+  isCircuitOpenError,
+  formatIssuePath,
+} from './errors.js';
+
 // Export types for external use
-export type { Operation, StandardSchemaV1 };
+export type {
+  Operation,
+  AnyOperation,
+  PipedOperation,
+  PipeOptions,
+  ComposedOperation,
+  CombinedSchema,
+  SettleOptions,
+  MapOptions,
+  NamedOperation,
+  DefineOperation,
+  OperationMeta,
+  ContextFactory,
+  ContextOptions,
+  Middleware,
+  MiddlewareArgs,
+  MiddlewareResult,
+  ExecutionInfo,
+  ExecuteOptions,
+  WithControls,
+  OperationResult,
+  OperationFailure,
+  StandardSchemaV1,
+};
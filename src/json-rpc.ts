@@ -0,0 +1,138 @@
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import { isCircuitOpenError, isConcurrencyLimitError, isInputErrorOf, isRateLimitError } from './errors.js';
+import { toRouter } from './router.js';
+import type { DynamicRouter, Router, RouterTree } from './router.js';
+
+type JsonRpcId = string | number | null;
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  method: string;
+  // The operation input
+  params?: unknown;
+  // Requests without an id are notifications and get no response
+  id?: JsonRpcId;
+}
+
+interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: { issues: ReadonlyArray<StandardSchemaV1.Issue> } | { retryAfterMs: number };
+}
+
+type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId; result: unknown }
+  | { jsonrpc: '2.0'; id: JsonRpcId; error: JsonRpcError };
+
+interface JsonRpcOptions {
+  // Called with errors reported as server errors, e.g. for logging
+  onError?: (error: unknown, request: JsonRpcRequest) => void;
+}
+
+const JsonRpcErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  ServerError: -32000,
+  // Server-defined codes for executions turned away by a policy
+  RateLimited: -32001,
+  Unavailable: -32002,
+} as const;
+
+function failure(id: JsonRpcId, code: number, message: string, data?: JsonRpcError['data']): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: data ? { code, message, data } : { code, message } };
+}
+
+function isJsonRpcRequest(value: unknown): value is JsonRpcRequest {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const { jsonrpc, method, params, id } = value as Record<string, unknown>;
+  return (
+    jsonrpc === '2.0' &&
+    typeof method === 'string' &&
+    (params === undefined || (typeof params === 'object' && params !== null)) &&
+    (id === undefined || id === null || typeof id === 'string' || typeof id === 'number')
+  );
+}
+
+// Rate limited executions and open circuits say when to retry; full concurrency limits do not
+function rejectionFailure(id: JsonRpcId, error: unknown): JsonRpcResponse | undefined {
+  if (isRateLimitError(error)) {
+    return failure(id, JsonRpcErrorCode.RateLimited, 'Rate limited', { retryAfterMs: error.retryAfterMs });
+  }
+  if (isCircuitOpenError(error)) {
+    return failure(id, JsonRpcErrorCode.Unavailable, 'Unavailable', { retryAfterMs: error.retryAfterMs });
+  }
+  if (isConcurrencyLimitError(error)) {
+    return failure(id, JsonRpcErrorCode.Unavailable, 'Unavailable');
+  }
+  return undefined;
+}
+
+async function handleRequest(
+  request: unknown,
+  router: DynamicRouter,
+  ctx: unknown,
+  options: JsonRpcOptions,
+): Promise<JsonRpcResponse | undefined> {
+  if (!isJsonRpcRequest(request)) {
+    return failure(null, JsonRpcErrorCode.InvalidRequest, 'Invalid Request');
+  }
+
+  const isNotification = !('id' in request);
+  const id = request.id ?? null;
+  let response: JsonRpcResponse;
+
+  const operation = router.resolve(request.method);
+  if (!operation) {
+    response = failure(id, JsonRpcErrorCode.MethodNotFound, 'Method not found');
+  } else {
+    try {
+      response = { jsonrpc: '2.0', id, result: (await router.call(request.method, request.params, ctx)) ?? null };
+    } catch (error) {
+      if (isInputErrorOf(error, operation)) {
+        response = failure(id, JsonRpcErrorCode.InvalidParams, 'Invalid params', { issues: error.issues });
+      } else {
+        const rejection = rejectionFailure(id, error);
+        if (!rejection) options.onError?.(error, request);
+        response = rejection ?? failure(id, JsonRpcErrorCode.ServerError, 'Server error');
+      }
+    }
+  }
+
+  return isNotification ? undefined : response;
+}
+
+// Handle a JSON-RPC 2.0 payload (parsed or raw JSON) against a set of operations. Method names are
+// operation paths and `params` is the operation input. Resolves with `undefined` when there is
+// nothing to send back (only notifications), leaving the transport up to the caller
+export async function handleJsonRpc(
+  payload: unknown,
+  operations: RouterTree | Router<any>,
+  ctx?: unknown,
+  options: JsonRpcOptions = {},
+): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+  const router = toRouter(operations);
+
+  if (typeof payload === 'string') {
+    try {
+      payload = JSON.parse(payload);
+    } catch {
+      return failure(null, JsonRpcErrorCode.ParseError, 'Parse error');
+    }
+  }
+
+  if (!Array.isArray(payload)) {
+    return handleRequest(payload, router, ctx, options);
+  }
+  if (payload.length === 0) {
+    return failure(null, JsonRpcErrorCode.InvalidRequest, 'Invalid Request');
+  }
+
+  const responses = await Promise.all(payload.map((request) => handleRequest(request, router, ctx, options)));
+  const sent = responses.filter((response): response is JsonRpcResponse => response !== undefined);
+  return sent.length > 0 ? sent : undefined;
+}
+
+export { JsonRpcErrorCode };
+export type { JsonRpcId, JsonRpcRequest, JsonRpcResponse, JsonRpcError, JsonRpcOptions };
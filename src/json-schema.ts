@@ -0,0 +1,222 @@
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import type { AnyOperation, CombinedSchema } from './index.js';
+import { JsonSchemaConversionError } from './errors.js';
+
+type JsonSchema = Record<string, unknown>;
+
+// Converts a schema of one vendor; `io` picks the shape before ('input') or after ('output') transforms
+type JsonSchemaAdapter = (schema: StandardSchemaV1, io: 'input' | 'output') => JsonSchema;
+
+interface OperationJsonSchema {
+  input: JsonSchema;
+  output?: JsonSchema;
+}
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+// Adapters keyed on `schema['~standard'].vendor`
+const adapters = new Map<string, JsonSchemaAdapter>();
+
+// Add (or replace) the adapter for a Standard Schema vendor
+export function registerJsonSchemaAdapter(vendor: string, adapter: JsonSchemaAdapter): void {
+  adapters.set(vendor, adapter);
+}
+
+export function schemaToJsonSchema(schema: StandardSchemaV1, io: 'input' | 'output' = 'input'): JsonSchema {
+  const vendor = schema['~standard'].vendor;
+  const adapter = adapters.get(vendor);
+  if (!adapter) {
+    throw new JsonSchemaConversionError(
+      `No JSON Schema adapter registered for vendor "${vendor}"; add one with registerJsonSchemaAdapter()`,
+      { vendor },
+    );
+  }
+
+  let converted: JsonSchema;
+  try {
+    converted = adapter(schema, io);
+  } catch (error) {
+    if (error instanceof JsonSchemaConversionError) throw error;
+    // e.g. zod transforms, which have no JSON Schema equivalent
+    throw new JsonSchemaConversionError(
+      `Failed to convert ${vendor} schema to JSON Schema: ${error instanceof Error ? error.message : String(error)}`,
+      { vendor, cause: error },
+    );
+  }
+
+  const { $schema, ...rest } = converted;
+  return { $schema: $schema ?? JSON_SCHEMA_DIALECT, ...rest };
+}
+
+// JSON Schema of an operation's input, and of its output when an output schema is declared
+export function toJsonSchema(operation: AnyOperation): OperationJsonSchema {
+  const input = schemaToJsonSchema(operation.schema, 'input');
+  return operation.outputSchema ? { input, output: schemaToJsonSchema(operation.outputSchema, 'output') } : { input };
+}
+
+// Zod 4 schemas convert themselves
+registerJsonSchemaAdapter('zod', (schema, io) => {
+  const zodSchema = schema as StandardSchemaV1 & { toJSONSchema?: (params: { io: string }) => JsonSchema };
+  if (typeof zodSchema.toJSONSchema !== 'function') {
+    throw new JsonSchemaConversionError('JSON Schema export requires zod 4 schemas', { vendor: 'zod' });
+  }
+  return zodSchema.toJSONSchema({ io });
+});
+
+// ArkType exposes the input (`in`) and output (`out`) sides as their own types
+registerJsonSchemaAdapter('arktype', (schema, io) => {
+  const side = (schema as any)[io === 'input' ? 'in' : 'out'] as { toJsonSchema(): JsonSchema };
+  return side.toJsonSchema();
+});
+
+// Schemas of composed operations (`all`, `race`, `map`) convert through the schemas they combine
+registerJsonSchemaAdapter('0pa', (schema, io) => {
+  const { kind, schemas } = schema as CombinedSchema;
+  const converted = schemas.map((item) => {
+    const { $schema, ...rest } = schemaToJsonSchema(item, io);
+    return rest;
+  });
+  return kind === 'array' ? { type: 'array', items: converted[0] } : { allOf: converted };
+});
+
+// Valibot schemas are plain data, so they are walked here instead of pulling in a converter package
+interface ValibotNode {
+  kind: string;
+  type: string;
+  [key: string]: any;
+}
+
+function valibotToJsonSchema(node: ValibotNode, io: 'input' | 'output'): JsonSchema {
+  let result: JsonSchema;
+
+  switch (node.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'null':
+      result = { type: node.type };
+      break;
+    case 'any':
+    case 'unknown':
+      result = {};
+      break;
+    case 'literal':
+      result = { const: node.literal };
+      break;
+    case 'picklist':
+    case 'enum':
+      result = { enum: node.options };
+      break;
+    case 'nullable':
+      result = { anyOf: [valibotToJsonSchema(node.wrapped, io), { type: 'null' }] };
+      break;
+    case 'optional':
+    case 'exact_optional':
+    case 'undefinedable':
+    case 'nullish': {
+      const wrapped = valibotToJsonSchema(node.wrapped, io);
+      result = node.type === 'nullish' ? { anyOf: [wrapped, { type: 'null' }] } : wrapped;
+      if (node.default !== undefined && typeof node.default !== 'function') {
+        result.default = node.default;
+      }
+      break;
+    }
+    case 'union':
+      result = { anyOf: node.options.map((option: ValibotNode) => valibotToJsonSchema(option, io)) };
+      break;
+    case 'array':
+      result = { type: 'array', items: valibotToJsonSchema(node.item, io) };
+      break;
+    case 'tuple':
+      result = {
+        type: 'array',
+        prefixItems: node.items.map((item: ValibotNode) => valibotToJsonSchema(item, io)),
+        items: false,
+      };
+      break;
+    case 'record':
+      result = { type: 'object', additionalProperties: valibotToJsonSchema(node.value, io) };
+      break;
+    case 'object':
+    case 'strict_object':
+    case 'loose_object':
+    case 'object_with_rest': {
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, entry] of Object.entries(node.entries as Record<string, ValibotNode>)) {
+        properties[key] = valibotToJsonSchema(entry, io);
+        const isOptional = ['optional', 'exact_optional', 'undefinedable', 'nullish'].includes(entry.type);
+        // Defaults fill in missing keys, so they are only optional on the input side
+        if (!isOptional || (io === 'output' && entry.default !== undefined)) {
+          required.push(key);
+        }
+      }
+      result = { type: 'object', properties, required };
+      if (node.type === 'strict_object') result.additionalProperties = false;
+      if (node.type === 'object_with_rest') result.additionalProperties = valibotToJsonSchema(node.rest, io);
+      break;
+    }
+    default:
+      throw new JsonSchemaConversionError(`Cannot convert valibot "${node.type}" schemas to JSON Schema`, {
+        vendor: 'valibot',
+      });
+  }
+
+  for (const action of (node.pipe ?? []) as ValibotNode[]) {
+    applyValibotAction(result, action);
+  }
+  return result;
+}
+
+// Carry validations and metadata from a valibot pipe over as JSON Schema keywords
+function applyValibotAction(result: JsonSchema, action: ValibotNode): void {
+  const isArray = result.type === 'array';
+
+  switch (action.type) {
+    case 'min_length':
+      result[isArray ? 'minItems' : 'minLength'] = action.requirement;
+      break;
+    case 'max_length':
+      result[isArray ? 'maxItems' : 'maxLength'] = action.requirement;
+      break;
+    case 'length':
+      result[isArray ? 'minItems' : 'minLength'] = action.requirement;
+      result[isArray ? 'maxItems' : 'maxLength'] = action.requirement;
+      break;
+    case 'min_value':
+      result.minimum = action.requirement;
+      break;
+    case 'max_value':
+      result.maximum = action.requirement;
+      break;
+    case 'integer':
+      result.type = 'integer';
+      break;
+    case 'email':
+    case 'uuid':
+      result.format = action.type;
+      break;
+    case 'url':
+      result.format = 'uri';
+      break;
+    case 'iso_date':
+      result.format = 'date';
+      break;
+    case 'iso_timestamp':
+      result.format = 'date-time';
+      break;
+    case 'regex':
+      result.pattern = (action.requirement as RegExp).source;
+      break;
+    case 'description':
+      result.description = action.description;
+      break;
+    case 'title':
+      result.title = action.title;
+      break;
+  }
+}
+
+registerJsonSchemaAdapter('valibot', (schema, io) => valibotToJsonSchema(schema as unknown as ValibotNode, io));
+
+export type { JsonSchema, JsonSchemaAdapter, OperationJsonSchema };
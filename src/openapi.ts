@@ -0,0 +1,185 @@
+import { schemaToJsonSchema } from './json-schema.js';
+import type { JsonSchema } from './json-schema.js';
+import { toRouter } from './router.js';
+import type { Router, RouterTree } from './router.js';
+
+interface OpenApiOptions {
+  title: string;
+  version: string;
+  description?: string;
+  servers?: Array<{ url: string; description?: string }>;
+  // Path prefix the operations are served under, as given to `createFetchHandler`
+  basePath?: string;
+}
+
+interface OpenApiOperation {
+  operationId: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  requestBody: { required: true; content: { 'application/json': { schema: JsonSchema } } };
+  responses: Record<string, { $ref: string } | OpenApiResponse>;
+}
+
+interface OpenApiResponse {
+  description: string;
+  headers?: Record<string, { description: string; required?: boolean; schema: JsonSchema }>;
+  content: { 'application/json': { schema: JsonSchema } };
+}
+
+interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string; description?: string }>;
+  paths: Record<string, { post: OpenApiOperation }>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    responses: Record<string, OpenApiResponse>;
+  };
+}
+
+// Error bodies sent by `createFetchHandler`; issues are the Standard Schema issues reported by validation
+const errorSchema = (code: JsonSchema, withIssues: boolean): JsonSchema => ({
+  type: 'object',
+  properties: {
+    error: {
+      type: 'object',
+      properties: {
+        code,
+        message: { type: 'string' },
+        ...(withIssues && { issues: { type: 'array', items: { $ref: '#/components/schemas/Issue' } } }),
+      },
+      required: withIssues ? ['code', 'message', 'issues'] : ['code', 'message'],
+    },
+  },
+  required: ['error'],
+});
+
+const retryAfterHeader = (required: boolean) => ({
+  description: 'Seconds until the operation may be retried',
+  required,
+  schema: { type: 'integer', minimum: 0 },
+});
+
+const createComponents = (): OpenApiDocument['components'] => ({
+  schemas: {
+    Issue: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+        path: {
+          type: 'array',
+          items: {
+            anyOf: [
+              { type: 'string' },
+              { type: 'number' },
+              {
+                type: 'object',
+                properties: { key: { anyOf: [{ type: 'string' }, { type: 'number' }] } },
+                required: ['key'],
+              },
+            ],
+          },
+        },
+      },
+      required: ['message'],
+    },
+    ValidationError: errorSchema({ const: 'VALIDATION_ERROR' }, true),
+    ParseError: errorSchema({ const: 'PARSE_ERROR' }, false),
+    NotFoundError: errorSchema({ const: 'NOT_FOUND' }, false),
+    RateLimitedError: errorSchema({ const: 'RATE_LIMITED' }, false),
+    UnavailableError: errorSchema({ const: 'SERVICE_UNAVAILABLE' }, false),
+    Error: errorSchema({ type: 'string' }, false),
+  },
+  responses: {
+    BadRequest: {
+      description: 'The input is not valid JSON or failed validation',
+      content: {
+        'application/json': {
+          schema: {
+            oneOf: [{ $ref: '#/components/schemas/ValidationError' }, { $ref: '#/components/schemas/ParseError' }],
+          },
+        },
+      },
+    },
+    NotFound: {
+      description: 'The operation does not exist',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/NotFoundError' } } },
+    },
+    TooManyRequests: {
+      description: 'The operation is rate limited',
+      headers: { 'Retry-After': retryAfterHeader(true) },
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/RateLimitedError' } } },
+    },
+    ServiceUnavailable: {
+      description: 'The operation has an open circuit or is at its concurrency limit',
+      headers: { 'Retry-After': retryAfterHeader(false) },
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/UnavailableError' } } },
+    },
+    InternalServerError: {
+      description: 'The operation failed',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+    },
+  },
+});
+
+// Embedded schemas take their dialect from the document
+function withoutDialect({ $schema, ...schema }: JsonSchema): JsonSchema {
+  return schema;
+}
+
+// Describe operations as an OpenAPI 3.1 document, one POST path per operation as served by
+// `createFetchHandler`. Names, descriptions, tags and deprecation come from operation metadata
+export function generateOpenApi(operations: RouterTree | Router<any>, options: OpenApiOptions): OpenApiDocument {
+  const router = toRouter(operations);
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '');
+  const paths: OpenApiDocument['paths'] = {};
+  const operationIds = new Map<string, string>();
+
+  for (const path of router.paths) {
+    const operation = router.resolve(path)!;
+    const { name, description, tags, deprecated } = operation.meta;
+    const operationId = name ?? path;
+    if (operationIds.has(operationId)) {
+      throw new Error(`Operations "${operationIds.get(operationId)}" and "${path}" share the name "${operationId}"`);
+    }
+    operationIds.set(operationId, path);
+
+    const output = operation.outputSchema ? withoutDialect(schemaToJsonSchema(operation.outputSchema, 'output')) : {};
+
+    paths[`${basePath}/${path.split('.').join('/')}`] = {
+      post: {
+        operationId,
+        ...(description && { description }),
+        ...(tags?.length && { tags }),
+        ...(deprecated && { deprecated }),
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: withoutDialect(schemaToJsonSchema(operation.schema, 'input')) } },
+        },
+        responses: {
+          '200': { description: 'Successful response', content: { 'application/json': { schema: output } } },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '429': { $ref: '#/components/responses/TooManyRequests' },
+          '500': { $ref: '#/components/responses/InternalServerError' },
+          '503': { $ref: '#/components/responses/ServiceUnavailable' },
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description && { description: options.description }),
+    },
+    ...(options.servers && { servers: options.servers }),
+    paths,
+    components: createComponents(),
+  };
+}
+
+export type { OpenApiDocument, OpenApiOperation, OpenApiOptions, OpenApiResponse };
@@ -0,0 +1,35 @@
+import type { AnyOperation } from './index.js';
+
+// One execution as seen by policies: the validated input and the resolved context
+interface Execution {
+  input: unknown;
+  ctx: unknown;
+  // Whether `ctx` was given to `execute` for this call rather than resolved from the bound context
+  ctxGiven: boolean;
+  // 1 for the first run of the handler, counting up with each retry
+  attempt: number;
+  // Aborted once the caller cancels or the timeout passes
+  signal: AbortSignal;
+}
+
+// Wraps the rest of an execution (middleware, handler and output validation). Policies run in
+// the order they were added, outermost first
+type Policy = (execution: Execution, next: (execution: Execution) => Promise<unknown>) => Promise<unknown>;
+
+// Sets up a policy for one operation, so operations built from the same builder keep separate
+// state. `controls` are added to the operation, e.g. a cache's `invalidate()`
+type PolicyFactory = (operation: AnyOperation) => { policy: Policy; controls?: object };
+
+// Time source for policies, replaceable so tests do not have to wait
+interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+export { systemClock };
+export type { Clock, Execution, Policy, PolicyFactory };
@@ -0,0 +1,94 @@
+import { RateLimitError } from './errors.js';
+import { systemClock } from './policy.js';
+import type { Clock, PolicyFactory } from './policy.js';
+
+interface TokenBucket {
+  // Most tokens the bucket holds, i.e. the largest burst
+  capacity: number;
+  refillPerSecond: number;
+  now: number;
+}
+
+interface RateLimitDecision {
+  allowed: boolean;
+  // Tokens left after this one
+  remaining: number;
+  // 0 when allowed
+  retryAfterMs: number;
+}
+
+// Keeps token buckets. Stores shared between processes must take tokens atomically
+interface RateLimitStore {
+  // Refill the bucket of `key` for the time passed, then take one token if there is one
+  take(key: string, bucket: TokenBucket): RateLimitDecision | PromiseLike<RateLimitDecision>;
+}
+
+interface RateLimitOptions<TInput = unknown, TContext = unknown> {
+  // Bucket of an execution, e.g. the user, IP or tenant (default: one bucket for the operation)
+  key?: (input: TInput, ctx: TContext) => string;
+  capacity: number;
+  refillPerSecond: number;
+  // Default: an in-memory store of the operation's own
+  store?: RateLimitStore;
+  clock?: Clock;
+}
+
+// In-memory token buckets. Full buckets are dropped once more than `maxKeys` are kept, as they
+// are the same as new ones
+export function createMemoryRateLimitStore(options: { maxKeys?: number } = {}): RateLimitStore {
+  const { maxKeys = 10_000 } = options;
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  const refill = (bucket: { tokens: number; updatedAt: number }, { capacity, refillPerSecond, now }: TokenBucket) =>
+    Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond);
+
+  return {
+    take(key, bucket) {
+      const tokens = refill(buckets.get(key) ?? { tokens: bucket.capacity, updatedAt: bucket.now }, bucket);
+
+      if (buckets.size >= maxKeys && !buckets.has(key)) {
+        for (const [otherKey, other] of buckets) {
+          if (refill(other, bucket) >= bucket.capacity) buckets.delete(otherKey);
+        }
+      }
+
+      if (tokens < 1) {
+        buckets.set(key, { tokens, updatedAt: bucket.now });
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterMs: Math.ceil(((1 - tokens) / bucket.refillPerSecond) * 1000),
+        };
+      }
+      buckets.set(key, { tokens: tokens - 1, updatedAt: bucket.now });
+      return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 };
+    },
+  };
+}
+
+export function rateLimitPolicy(options: RateLimitOptions<any, any>): PolicyFactory {
+  const { key, capacity, refillPerSecond, clock = systemClock } = options;
+  if (!(capacity >= 1)) {
+    throw new RangeError('rateLimit() capacity must be at least 1');
+  }
+  if (!(refillPerSecond > 0)) {
+    throw new RangeError('rateLimit() refillPerSecond must be a positive number');
+  }
+
+  return (operation) => {
+    const store = options.store ?? createMemoryRateLimitStore();
+
+    return {
+      policy: async (execution, next) => {
+        const bucketKey = key?.(execution.input, execution.ctx);
+        const decision = await store.take(bucketKey ?? '', { capacity, refillPerSecond, now: clock.now() });
+        if (!decision.allowed) {
+          throw new RateLimitError({ operation, retryAfterMs: decision.retryAfterMs, key: bucketKey });
+        }
+        return next(execution);
+      },
+    };
+  };
+}
+
+export type { RateLimitDecision, RateLimitOptions, RateLimitStore, TokenBucket };
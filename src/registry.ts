@@ -0,0 +1,123 @@
+import type { AnyOperation, NamedOperation } from './index.js';
+import { isOperation } from './router.js';
+
+// Type helpers reading an operation's contract off its methods
+type OperationInput<TOperation extends AnyOperation> = Parameters<TOperation['execute']>[0];
+type OperationOutput<TOperation extends AnyOperation> = Awaited<ReturnType<TOperation['execute']>>;
+// Distributes over unions of operations; context-free operations contribute `never`
+type OperationContext<TOperation> = TOperation extends AnyOperation
+  ? Parameters<TOperation['handler']>[0] extends { ctx: infer TContext }
+    ? Exclude<TContext, undefined>
+    : never
+  : never;
+
+type UnionToIntersection<T> = (T extends unknown ? (arg: T) => void : never) extends (arg: infer I) => void ? I : never;
+
+// Plain function bound to a context: validates input and executes the operation
+type BoundOperation<TOperation extends AnyOperation> = (
+  input: OperationInput<TOperation>,
+) => Promise<OperationOutput<TOperation>>;
+
+// What a selector may return: one operation, a tuple of them, or an object of them
+type OperationSelection = AnyOperation | readonly AnyOperation[] | { readonly [key: string]: AnyOperation };
+
+type SelectedOperations<TSelection> = TSelection extends AnyOperation
+  ? TSelection
+  : TSelection extends readonly AnyOperation[]
+    ? TSelection[number]
+    : TSelection[keyof TSelection];
+
+type BoundSelection<TSelection> = TSelection extends AnyOperation
+  ? BoundOperation<TSelection>
+  : { -readonly [K in keyof TSelection]: TSelection[K] extends AnyOperation ? BoundOperation<TSelection[K]> : never };
+
+// The context must satisfy every selected operation that takes one
+type SelectionContext<TSelection> = [OperationContext<SelectedOperations<TSelection>>] extends [never]
+  ? never
+  : UnionToIntersection<OperationContext<SelectedOperations<TSelection>>>;
+
+// Operations whose context is optional on execute: context-free or bound by a factory
+type ContextFreeOperation = AnyOperation & {
+  execute: (input: any, options?: { ctx?: undefined }) => Promise<unknown>;
+};
+
+type ContextFreeSelection =
+  | ContextFreeOperation
+  | readonly ContextFreeOperation[]
+  | { readonly [key: string]: ContextFreeOperation };
+
+// How operations composed from a selection take their shared context: required when any member requires one
+type SelectionContextOptions<TSelection> = [SelectionContext<TSelection>] extends [never]
+  ? { ctx?: undefined }
+  : [SelectedOperations<TSelection>] extends [ContextFreeOperation]
+    ? { ctx?: SelectionContext<TSelection> }
+    : { ctx: SelectionContext<TSelection> };
+
+// Registered operations keyed by name
+type OperationsByName<TOperations extends readonly NamedOperation<string>[]> = {
+  [TOperation in TOperations[number] as TOperation['name']]: TOperation;
+};
+
+interface Registry<TOperations extends readonly NamedOperation<string>[]> {
+  operations: OperationsByName<TOperations>;
+  getOperation<const TSelection extends ContextFreeSelection>(options: {
+    selector: (ops: OperationsByName<TOperations>) => TSelection;
+    ctx?: SelectionContext<TSelection>;
+  }): BoundSelection<TSelection>;
+  getOperation<const TSelection extends OperationSelection>(options: {
+    selector: (ops: OperationsByName<TOperations>) => TSelection;
+    ctx: SelectionContext<TSelection>;
+  }): BoundSelection<TSelection>;
+}
+
+function bindOperation(operation: AnyOperation, ctx: unknown): BoundOperation<AnyOperation> {
+  return (input) => (ctx === undefined ? operation.execute(input) : operation.execute(input, { ctx }));
+}
+
+// Collect named operations so they can be selected and bound to a context together
+export function createRegistry<const TOperations extends readonly NamedOperation<string>[]>(
+  ...operations: TOperations
+): Registry<TOperations> {
+  const byName: Record<string, AnyOperation> = {};
+  for (const operation of operations) {
+    if (!operation.name) {
+      throw new Error('Only named operations can be registered');
+    }
+    if (operation.name in byName) {
+      throw new Error(`Operation "${operation.name}" is already registered`);
+    }
+    byName[operation.name] = operation;
+  }
+
+  return {
+    operations: byName as OperationsByName<TOperations>,
+    getOperation({ ctx, selector }: { ctx?: unknown; selector: (ops: any) => OperationSelection }): any {
+      const selection = selector(byName);
+      if (typeof selection !== 'object' || selection === null) {
+        throw new TypeError('Selector must return an operation, a tuple or an object of operations');
+      }
+
+      if (Array.isArray(selection)) {
+        return selection.map((operation) => bindOperation(operation, ctx));
+      }
+      if (isOperation(selection)) {
+        return bindOperation(selection, ctx);
+      }
+      return Object.fromEntries(
+        Object.entries(selection).map(([key, operation]) => [key, bindOperation(operation, ctx)]),
+      );
+    },
+  };
+}
+
+export type {
+  UnionToIntersection,
+  SelectedOperations,
+  Registry,
+  BoundOperation,
+  OperationInput,
+  OperationOutput,
+  OperationContext,
+  SelectionContext,
+  SelectionContextOptions,
+};
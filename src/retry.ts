@@ -0,0 +1,64 @@
+import { OutputValidationError, ValidationError } from './errors.js';
+import { systemClock } from './policy.js';
+import type { Clock, Policy, PolicyFactory } from './policy.js';
+
+// Milliseconds to wait before the next attempt, given the attempt that just failed
+type Backoff = 'exponential' | 'linear' | ((attempt: number, error: unknown) => number);
+
+interface RetryOptions {
+  // Total number of attempts, the first one included
+  attempts: number;
+  // Default: 'exponential', doubling `delayMs` after every failure
+  backoff?: Backoff;
+  // Delay after the first failure for the built-in backoffs (default: 100)
+  delayMs?: number;
+  maxDelayMs?: number;
+  // Randomize delays so callers do not retry in lockstep: `true` picks anywhere from 0 up to the
+  // delay, a number between 0 and 1 randomizes only that share of it
+  jitter?: boolean | number;
+  // Whether a failure is worth another attempt (default: every failure but invalid data)
+  retryIf?: (error: unknown, attempt: number) => boolean | PromiseLike<boolean>;
+  clock?: Clock;
+}
+
+function delayFor(options: RetryOptions, attempt: number, error: unknown): number {
+  const { backoff = 'exponential', delayMs = 100, maxDelayMs = Infinity, jitter = false } = options;
+
+  let delay: number;
+  if (typeof backoff === 'function') {
+    delay = backoff(attempt, error);
+  } else {
+    delay = backoff === 'linear' ? delayMs * attempt : delayMs * 2 ** (attempt - 1);
+  }
+  delay = Math.min(delay, maxDelayMs);
+
+  const share = jitter === true ? 1 : jitter || 0;
+  return delay * (1 - share * Math.random());
+}
+
+export function retryPolicy(options: RetryOptions): PolicyFactory {
+  const { attempts, retryIf = () => true, clock = systemClock } = options;
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    throw new RangeError('retry() attempts must be a positive integer');
+  }
+
+  const policy: Policy = async (execution, next) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await next({ ...execution, attempt });
+      } catch (error) {
+        // The same data would fail the same way again
+        const isInvalid = error instanceof ValidationError || error instanceof OutputValidationError;
+        if (attempt >= attempts || isInvalid || execution.signal.aborted || !(await retryIf(error, attempt))) {
+          throw error;
+        }
+        await clock.sleep(delayFor(options, attempt, error));
+        // Nobody is waiting for the result any more
+        if (execution.signal.aborted) throw execution.signal.reason;
+      }
+    }
+  };
+  return () => ({ policy });
+}
+
+export type { Backoff, RetryOptions };
@@ -0,0 +1,110 @@
+import type { AnyOperation } from './index.js';
+import { OperationNotFoundError } from './errors.js';
+import type { OperationContext, OperationInput, OperationOutput } from './registry.js';
+
+// Operations grouped under (nested) namespaces
+interface RouterTree {
+  readonly [key: string]: AnyOperation | RouterTree;
+}
+
+// Dotted path of every operation in a tree, e.g. 'users.create'. Trees only known by their
+// index signature (such as `RouterTree` itself) yield `string`
+type TreePaths<TTree, TPrefix extends string = ''> = string extends keyof TTree
+  ? string
+  : {
+      [K in keyof TTree & string]: TTree[K] extends AnyOperation
+        ? `${TPrefix}${K}`
+        : TreePaths<TTree[K], `${TPrefix}${K}.`>;
+    }[keyof TTree & string];
+
+type TreeOperation<TTree, TPath extends string> = TPath extends `${infer THead}.${infer TRest}`
+  ? THead extends keyof TTree
+    ? TreeOperation<TTree[THead], TRest>
+    : never
+  : TPath extends keyof TTree
+    ? Extract<TTree[TPath], AnyOperation>
+    : never;
+
+// The context argument of `call` is required only when the operation requires one on execute
+type CallContextArgs<TOperation extends AnyOperation> =
+  {} extends NonNullable<Parameters<TOperation['execute']>[1]>
+    ? [ctx?: OperationContext<TOperation>]
+    : [ctx: OperationContext<TOperation>];
+
+interface Router<TTree extends RouterTree> {
+  readonly tree: TTree;
+  readonly paths: ReadonlyArray<TreePaths<TTree>>;
+  // Look an operation up by dotted path; unknown paths resolve to `undefined`
+  resolve<TPath extends TreePaths<TTree>>(path: TPath): TreeOperation<TTree, TPath>;
+  resolve(path: string): AnyOperation | undefined;
+  // Validate and execute the operation at `path`
+  call<TPath extends TreePaths<TTree>>(
+    path: TPath,
+    input: OperationInput<TreeOperation<TTree, TPath>>,
+    ...ctx: CallContextArgs<TreeOperation<TTree, TPath>>
+  ): Promise<OperationOutput<TreeOperation<TTree, TPath>>>;
+}
+
+// Type helpers accepting either a router or its tree
+type TreeOf<TRouter> = TRouter extends Router<infer TTree> ? TTree : TRouter;
+type RouterPath<TRouter> = TreePaths<TreeOf<TRouter>>;
+type RouterOperation<TRouter, TPath extends RouterPath<TRouter>> = TreeOperation<TreeOf<TRouter>, TPath>;
+type RouterInput<TRouter, TPath extends RouterPath<TRouter>> = OperationInput<RouterOperation<TRouter, TPath>>;
+type RouterOutput<TRouter, TPath extends RouterPath<TRouter>> = OperationOutput<RouterOperation<TRouter, TPath>>;
+
+// Operations are told apart from namespaces and options objects by their `execute` method
+export function isOperation(value: unknown): value is AnyOperation {
+  return typeof (value as AnyOperation | undefined)?.execute === 'function';
+}
+
+function flattenTree(tree: RouterTree, prefix: string, operations: Map<string, AnyOperation>): void {
+  for (const [key, value] of Object.entries(tree)) {
+    if (key.includes('.')) {
+      throw new Error(`Router keys cannot contain ".": "${prefix}${key}"`);
+    }
+    if (isOperation(value)) {
+      operations.set(`${prefix}${key}`, value);
+    } else if (typeof value === 'object' && value !== null) {
+      flattenTree(value, `${prefix}${key}.`, operations);
+    } else {
+      throw new TypeError(`Router entry "${prefix}${key}" is neither an operation nor a namespace`);
+    }
+  }
+}
+
+export function createRouter<const TTree extends RouterTree>(tree: TTree): Router<TTree> {
+  const operations = new Map<string, AnyOperation>();
+  flattenTree(tree, '', operations);
+
+  return {
+    tree,
+    paths: [...operations.keys()] as TreePaths<TTree>[],
+    resolve(path: string): any {
+      return operations.get(path);
+    },
+    call(path: string, input: unknown, ctx?: unknown): Promise<any> {
+      const operation = operations.get(path);
+      if (!operation) {
+        return Promise.reject(new OperationNotFoundError(path));
+      }
+      return ctx === undefined ? operation.execute(input) : operation.execute(input, { ctx });
+    },
+  } as Router<TTree>;
+}
+
+// Untyped view of a router for transports, which dispatch on paths only known at runtime
+interface DynamicRouter {
+  readonly paths: ReadonlyArray<string>;
+  resolve(path: string): AnyOperation | undefined;
+  call(path: string, input: unknown, ctx?: unknown): Promise<unknown>;
+}
+
+// Transports accept a router or a plain (possibly nested) record of operations keyed by name
+export function toRouter(operations: RouterTree | Router<any>): DynamicRouter {
+  // Tree entries are operations or namespaces, never functions
+  return typeof operations.resolve === 'function'
+    ? (operations as DynamicRouter)
+    : createRouter(operations as RouterTree);
+}
+
+export type { DynamicRouter, Router, RouterTree, RouterPath, RouterOperation, RouterInput, RouterOutput };
@@ -0,0 +1,66 @@
+import { OperationAbortedError, OperationTimeoutError } from './errors.js';
+import type { AnyOperation } from './index.js';
+
+interface ExecutionSignal {
+  signal: AbortSignal;
+  // Rejects with the abort reason, so the execution can stop waiting on the handler
+  aborted: Promise<never>;
+  // Stop listening to the caller's signal and clear the timer
+  dispose(): void;
+}
+
+// Longest delay `setTimeout` supports; longer ones fire at once
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Time limits are positive and fit a timer, or `Infinity` for none
+export function checkTimeout(ms: number, source: string): void {
+  if (ms !== Infinity && !(ms > 0 && ms <= MAX_TIMEOUT_MS)) {
+    throw new RangeError(`${source} needs a positive number of milliseconds up to ${MAX_TIMEOUT_MS}, or Infinity`);
+  }
+}
+
+// Signal of one execution: aborts along with the caller's signal, or once `timeoutMs` has passed
+export function createExecutionSignal(
+  parent: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+  operation: AnyOperation,
+): ExecutionSignal {
+  const controller = new AbortController();
+
+  const onAbort = () => {
+    const reason = parent!.reason;
+    // Steps of a composed operation fail with the same error as the operation itself
+    const target = operation.name ? ` "${operation.name}"` : '';
+    controller.abort(
+      reason instanceof OperationAbortedError
+        ? reason
+        : new OperationAbortedError(`Operation${target} was aborted`, { operation, cause: reason }),
+    );
+  };
+  if (parent?.aborted) {
+    onAbort();
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer =
+    timeoutMs === undefined || timeoutMs === Infinity
+      ? undefined
+      : setTimeout(() => controller.abort(new OperationTimeoutError(timeoutMs, { operation })), timeoutMs);
+
+  const aborted = new Promise<never>((_, reject) => {
+    if (controller.signal.aborted) reject(controller.signal.reason);
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+  });
+  // Only awaited while the execution is pending
+  aborted.catch(() => {});
+
+  return {
+    signal: controller.signal,
+    aborted,
+    dispose() {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
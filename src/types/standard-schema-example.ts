@@ -1,4 +1,5 @@
 import type { StandardSchemaV1 } from '@standard-schema/spec';
+import { ValidationError } from '../errors.js';
 
 export async function standardValidate<T extends StandardSchemaV1>(
   schema: T,
@@ -9,7 +10,7 @@ export async function standardValidate<T extends StandardSchemaV1>(
 
   // if the `issues` field exists, the validation failed
   if (result.issues) {
-    throw new Error(JSON.stringify(result.issues, null, 2));
+    throw new ValidationError(result.issues);
   }
 
   return result.value;
@@ -0,0 +1,179 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { Opa, ValidationError, createMemoryCacheStore } from '../src/index.js';
+import type { CacheEntry, CacheStore } from '../src/index.js';
+import { z } from 'zod';
+import { manualClock } from './helpers/clock.js';
+
+describe('cache()', () => {
+  const createOperation = (options: { ttlMs?: number; staleWhileRevalidateMs?: number; store?: CacheStore } = {}) => {
+    const clock = manualClock();
+    const handler = vi.fn(async ({ input }: { input: { id: string; page?: number } }) => ({
+      id: input.id,
+      page: input.page ?? 1,
+      calls: handler.mock.calls.length,
+    }));
+    const operation = Opa.create()
+      .operation.input(z.object({ id: z.string(), page: z.number().optional() }))
+      .cache({ ttlMs: 1_000, clock, ...options })
+      .handler(handler);
+    return { operation, handler, clock };
+  };
+
+  it('should serve cached results until they expire', async () => {
+    const { operation, handler, clock } = createOperation();
+
+    expect(await operation.execute({ id: 'a' })).toEqual({ id: 'a', page: 1, calls: 1 });
+    clock.time = 999;
+    expect(await operation.execute({ id: 'a' })).toEqual({ id: 'a', page: 1, calls: 1 });
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    clock.time = 1_000;
+    expect(await operation.execute({ id: 'a' })).toEqual({ id: 'a', page: 1, calls: 2 });
+  });
+
+  it('should key results on the validated input, whatever the key order', async () => {
+    const { operation, handler } = createOperation();
+
+    await operation.execute({ id: 'a', page: 2 });
+    await operation.execute({ page: 2, id: 'a' } as { id: string; page: number });
+    await operation.execute({ id: 'b', page: 2 });
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should key maps, sets and bigints on their content', async () => {
+    const handler = vi.fn(async () => 'ok');
+    const operation = Opa.create()
+      .operation.input(z.object({ ids: z.set(z.string()), totals: z.map(z.string(), z.bigint()) }))
+      .cache({ ttlMs: 1_000 })
+      .handler(handler);
+
+    await operation.execute({ ids: new Set(['a', 'b']), totals: new Map([['x', 1n]]) });
+    await operation.execute({ ids: new Set(['b', 'a']), totals: new Map([['x', 1n]]) });
+    await operation.execute({ ids: new Set(['a']), totals: new Map([['x', 1n]]) });
+    await operation.execute({ ids: new Set(['a', 'b']), totals: new Map([['x', 2n]]) });
+
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should validate input before looking up the cache', async () => {
+    const store: CacheStore = { get: vi.fn(), set: vi.fn(), delete: vi.fn(), clear: vi.fn() };
+    const { operation } = createOperation({ store });
+
+    await expect(operation.execute({ id: 1 } as any)).rejects.toBeInstanceOf(ValidationError);
+    expect(store.get).not.toHaveBeenCalled();
+  });
+
+  it('should not cache failures', async () => {
+    const handler = vi.fn(async () => {
+      if (handler.mock.calls.length === 1) throw new Error('down');
+      return 'ok';
+    });
+    const operation = Opa.create().operation.input(z.string()).cache({ ttlMs: 1_000 }).handler(handler);
+
+    await expect(operation.execute('a')).rejects.toThrow('down');
+    expect(await operation.execute('a')).toBe('ok');
+  });
+
+  it('should use a custom key function', async () => {
+    const handler = vi.fn(async ({ input, ctx }: { input: { id: string }; ctx: { tenant: string } }) => {
+      return `${ctx.tenant}:${input.id}`;
+    });
+    const operation = Opa.context<{ tenant: string }>()
+      .create()
+      .operation.input(z.object({ id: z.string() }))
+      .cache({ ttlMs: 1_000, key: (input, ctx) => `${ctx.tenant}/${input.id}` })
+      .handler(handler);
+
+    expect(await operation.execute({ id: '1' }, { ctx: { tenant: 'acme' } })).toBe('acme:1');
+    expect(await operation.execute({ id: '1' }, { ctx: { tenant: 'globex' } })).toBe('globex:1');
+    expect(await operation.execute({ id: '1' }, { ctx: { tenant: 'acme' } })).toBe('acme:1');
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache executions given a per-call context without a key', async () => {
+    const handler = vi.fn(async ({ ctx }: { input: string; ctx: { tenant: string } }) => ctx.tenant);
+    const builder = Opa.context({ tenant: 'acme' }).create().operation.input(z.string()).cache({ ttlMs: 1_000 });
+    const operation = builder.handler(handler);
+
+    expect(await operation.execute('report', { ctx: { tenant: 'globex' } })).toBe('globex');
+    expect(await operation.execute('report', { ctx: { tenant: 'initech' } })).toBe('initech');
+    expect(await operation.execute('report')).toBe('acme');
+    expect(await operation.execute('report')).toBe('acme');
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should invalidate one input or clear everything', async () => {
+    const { operation, handler } = createOperation();
+
+    await operation.execute({ id: 'a' });
+    await operation.execute({ id: 'b' });
+    await operation.invalidate({ id: 'a' });
+    await operation.execute({ id: 'a' });
+    await operation.execute({ id: 'b' });
+    expect(handler).toHaveBeenCalledTimes(3);
+
+    await operation.clear();
+    await operation.execute({ id: 'b' });
+    expect(handler).toHaveBeenCalledTimes(4);
+
+    await expect(operation.invalidate({ id: 1 } as any)).rejects.toBeInstanceOf(ValidationError);
+    expectTypeOf(operation.invalidate).parameter(0).toEqualTypeOf<{ id: string; page?: number | undefined }>();
+  });
+
+  it('should keep separate caches for operations built from the same builder', async () => {
+    const builder = Opa.create().operation.input(z.string()).cache({ ttlMs: 1_000 });
+    const upper = builder.handler(async ({ input }) => input.toUpperCase());
+    const lower = builder.handler(async ({ input }) => input.toLowerCase());
+
+    expect(await upper.execute('Ab')).toBe('AB');
+    expect(await lower.execute('Ab')).toBe('ab');
+  });
+
+  describe('stale-while-revalidate', () => {
+    it('should serve stale results while refreshing them in the background', async () => {
+      const { operation, handler, clock } = createOperation({ staleWhileRevalidateMs: 500 });
+
+      await operation.execute({ id: 'a' });
+      clock.time = 1_200;
+      const [first, second] = await Promise.all([operation.execute({ id: 'a' }), operation.execute({ id: 'a' })]);
+      expect([first, second]).toMatchObject([{ calls: 1 }, { calls: 1 }]);
+
+      // Refreshed once, then served fresh
+      await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+      await new Promise((resolve) => setTimeout(resolve));
+      expect(await operation.execute({ id: 'a' })).toMatchObject({ calls: 2 });
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should run the handler once results are past the stale window', async () => {
+      const { operation, handler, clock } = createOperation({ staleWhileRevalidateMs: 500 });
+
+      await operation.execute({ id: 'a' });
+      clock.time = 1_500;
+      expect(await operation.execute({ id: 'a' })).toMatchObject({ calls: 2 });
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('createMemoryCacheStore()', () => {
+    const entry = (value: unknown): CacheEntry => ({ value, expiresAt: Infinity, staleUntil: Infinity });
+
+    it('should evict the least recently used entries', () => {
+      const store = createMemoryCacheStore({ maxEntries: 2 });
+
+      store.set('a', entry(1), 1_000);
+      store.set('b', entry(2), 1_000);
+      store.get('a');
+      store.set('c', entry(3), 1_000);
+
+      expect(store.get('a')).toEqual(entry(1));
+      expect(store.get('b')).toBeUndefined();
+      expect(store.get('c')).toEqual(entry(3));
+    });
+  });
+
+  it('should reject invalid ttls', () => {
+    expect(() => Opa.create().operation.input(z.string()).cache({ ttlMs: 0 })).toThrow(RangeError);
+  });
+});
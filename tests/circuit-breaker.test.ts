@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Opa, CircuitOpenError, ValidationError, isCircuitOpenError } from '../src/index.js';
+import type { CircuitBreakerOptions, CircuitStateChange } from '../src/index.js';
+import { z } from 'zod';
+import { manualClock } from './helpers/clock.js';
+
+// Operation whose handler fails while `healthy` is false
+function flakyOperation(options: Partial<CircuitBreakerOptions> = {}) {
+  const clock = manualClock();
+  const changes: CircuitStateChange[] = [];
+  const service = { healthy: false };
+  const handler = vi.fn(async ({ input }: { input: string }) => {
+    if (!service.healthy) throw new Error('service down');
+    return `live:${input}`;
+  });
+  const operation = Opa.create()
+    .operation.input(z.string())
+    .meta({ name: 'quote' })
+    .circuitBreaker({
+      failureThreshold: 2,
+      windowMs: 1_000,
+      halfOpenAfterMs: 5_000,
+      onStateChange: (change) => changes.push(change),
+      clock,
+      ...options,
+    })
+    .handler(handler);
+  return { operation, handler, service, clock, changes };
+}
+
+describe('circuitBreaker()', () => {
+  it('should open after `failureThreshold` handler failures and then fail fast', async () => {
+    const { operation, handler, clock, changes } = flakyOperation();
+
+    await expect(operation.execute('a')).rejects.toThrow('service down');
+    await expect(operation.execute('a')).rejects.toThrow('service down');
+    expect(operation.circuitState()).toBe('open');
+
+    clock.time = 1_000;
+    const error = await operation.execute('a').catch((error) => error);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(isCircuitOpenError(error)).toBe(true);
+    expect(error).toMatchObject({ retryAfterMs: 4_000, operation });
+    expect(error.message).toBe('Operation "quote" has an open circuit; retry in 4000ms');
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(changes).toEqual([{ operation, from: 'closed', to: 'open' }]);
+
+    const result = await operation.safeExecute('a');
+    expect(!result.ok && result.error.kind).toBe('rejected');
+  });
+
+  it('should only count failures within the window', async () => {
+    const { operation, clock } = flakyOperation();
+
+    await operation.execute('a').catch(() => {});
+    clock.time = 1_500;
+    await operation.execute('a').catch(() => {});
+
+    expect(operation.circuitState()).toBe('closed');
+  });
+
+  it('should close again when the trial execution succeeds', async () => {
+    const { operation, service, clock, changes } = flakyOperation();
+    await operation.execute('a').catch(() => {});
+    await operation.execute('a').catch(() => {});
+
+    clock.time = 5_000;
+    service.healthy = true;
+    expect(await operation.execute('a')).toBe('live:a');
+
+    expect(operation.circuitState()).toBe('closed');
+    expect(changes.map(({ from, to }) => `${from} -> ${to}`)).toEqual([
+      'closed -> open',
+      'open -> half-open',
+      'half-open -> closed',
+    ]);
+  });
+
+  it('should open again when the trial execution fails', async () => {
+    const { operation, clock } = flakyOperation();
+    await operation.execute('a').catch(() => {});
+    await operation.execute('a').catch(() => {});
+
+    clock.time = 5_000;
+    await expect(operation.execute('a')).rejects.toThrow('service down');
+
+    expect(operation.circuitState()).toBe('open');
+    await expect(operation.execute('a')).rejects.toMatchObject({ retryAfterMs: 5_000 });
+  });
+
+  it('should let one trial execution through at a time', async () => {
+    let release!: () => void;
+    const handler = vi.fn(async () => {
+      await new Promise<void>((resolve) => (release = resolve));
+      return 'live';
+    });
+    const clock = manualClock();
+    const operation = Opa.create()
+      .operation.input(z.string())
+      .circuitBreaker({ failureThreshold: 1, windowMs: 1_000, halfOpenAfterMs: 100, clock })
+      .handler(async () => {
+        if (clock.time === 0) throw new Error('service down');
+        return handler();
+      });
+    await operation.execute('a').catch(() => {});
+
+    clock.time = 100;
+    const trial = operation.execute('a');
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+    await expect(operation.execute('a')).rejects.toMatchObject({ retryAfterMs: 0 });
+
+    release();
+    expect(await trial).toBe('live');
+    expect(operation.circuitState()).toBe('closed');
+  });
+
+  it('should run the fallback operation while open', async () => {
+    const fallback = Opa.create()
+      .operation.input(z.string())
+      .handler(async ({ input }) => `cached:${input}`);
+    const { operation } = flakyOperation({ failureThreshold: 1, fallback });
+
+    await operation.execute('a').catch(() => {});
+
+    expect(await operation.execute('b')).toBe('cached:b');
+  });
+
+  it('should not count validation failures or failures rejected by `isFailure`', async () => {
+    const { operation } = flakyOperation({
+      failureThreshold: 1,
+      isFailure: (error) => !(error instanceof Error && error.message === 'service down'),
+    });
+
+    await expect(operation.execute(1 as any)).rejects.toBeInstanceOf(ValidationError);
+    await expect(operation.execute('a')).rejects.toThrow('service down');
+
+    expect(operation.circuitState()).toBe('closed');
+  });
+
+  it('should keep a separate circuit per operation', async () => {
+    const builder = Opa.create()
+      .operation.input(z.string())
+      .circuitBreaker({ failureThreshold: 1, windowMs: 1_000, halfOpenAfterMs: 1_000, clock: manualClock() });
+    const failing = builder.handler(async () => {
+      throw new Error('service down');
+    });
+    const working = builder.handler(async ({ input }) => input);
+
+    await failing.execute('a').catch(() => {});
+
+    expect(failing.circuitState()).toBe('open');
+    expect(await working.execute('a')).toBe('a');
+  });
+
+  it('should reject invalid options', () => {
+    const builder = Opa.create().operation.input(z.string());
+
+    expect(() => builder.circuitBreaker({ failureThreshold: 0, windowMs: 1, halfOpenAfterMs: 1 })).toThrow(RangeError);
+    expect(() => builder.circuitBreaker({ failureThreshold: 1, windowMs: 0, halfOpenAfterMs: 1 })).toThrow(RangeError);
+    expect(() => builder.circuitBreaker({ failureThreshold: 1, windowMs: 1, halfOpenAfterMs: -1 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { Opa, defineOperation, runCli } from '../src/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+
+const createUser = Opa.create()
+  .operation.input(
+    z.object({
+      name: z.string(),
+      age: z.number().int(),
+      admin: z.boolean().optional(),
+      zip: z.string().optional(),
+      tags: z.array(z.string()).optional(),
+      address: z.object({ city: z.string() }).optional(),
+    }),
+  )
+  .meta({ description: 'Create a user' })
+  .handler(async ({ input }) => ({ id: 1, ...input }));
+
+const listUsers = defineOperation<{ users: Array<{ id: number; name: string }> }>()(
+  'listUsers',
+  async ({ ctx }) => ctx.users,
+  v.object({}),
+);
+
+const fail = Opa.create()
+  .operation.input(v.object({}))
+  .handler(async () => {
+    throw new Error('database is down');
+  });
+
+// Handler bug: calls another operation with input it rejects
+const createBadly = Opa.create()
+  .operation.input(v.object({}))
+  .handler(async () => createUser.execute({ name: 'Ada', age: 'old' } as any));
+
+const operations = { users: { create: createUser, list: listUsers }, fail, createBadly };
+const ctx = {
+  users: [
+    { id: 1, name: 'Ada' },
+    { id: 2, name: 'Grace' },
+  ],
+};
+
+// Run the CLI with captured output and fake stdin/files
+async function run(argv: string[], io: { stdin?: string; files?: Record<string, string> } = {}) {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const code = await runCli(operations, argv, ctx, {
+    name: 'ops',
+    io: {
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+      readStdin: async () => io.stdin ?? '',
+      readFile: async (path) => {
+        if (!io.files?.[path]) throw new Error(`ENOENT: ${path}`);
+        return io.files[path];
+      },
+    },
+  });
+  return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+}
+
+describe('runCli()', () => {
+  it('should read input from --json', async () => {
+    const result = await run(['users.create', '--json', '{"name":"Ada","age":36}']);
+
+    expect(result.code).toBe(0);
+    expect(JSON.parse(result.stdout)).toEqual({ id: 1, name: 'Ada', age: 36 });
+  });
+
+  it('should read input from a JSON file or stdin', async () => {
+    const fromFile = await run(['users.create', 'ada.json'], { files: { 'ada.json': '{"name":"Ada","age":36}' } });
+    const fromStdin = await run(['users.create', '-'], { stdin: '{"name":"Grace","age":45}' });
+
+    expect(JSON.parse(fromFile.stdout).name).toBe('Ada');
+    expect(JSON.parse(fromStdin.stdout).name).toBe('Grace');
+  });
+
+  it('should coerce --key value flags', async () => {
+    const result = await run([
+      'users.create',
+      '--name',
+      'Ada',
+      '--age=36',
+      '--admin',
+      '--zip',
+      '01234',
+      '--tags',
+      'a',
+      '--tags',
+      'b',
+      '--address.city',
+      'London',
+    ]);
+
+    expect(result.stderr).toBe('');
+    expect(JSON.parse(result.stdout)).toEqual({
+      id: 1,
+      name: 'Ada',
+      age: 36,
+      admin: true,
+      zip: '01234',
+      tags: ['a', 'b'],
+      address: { city: 'London' },
+    });
+  });
+
+  it('should reject flags that would reach Object.prototype', async () => {
+    for (const flag of ['--__proto__.polluted', '--constructor.prototype.polluted', '--address.__proto__']) {
+      const result = await run(['users.create', flag, 'yes']);
+
+      expect(result.code).toBe(1);
+      expect(result.stderr).toBe(`Invalid flag "${flag}"`);
+    }
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('should exit non-zero with formatted issues on invalid input', async () => {
+    const result = await run(['users.create', '--name', 'Ada', '--age', 'old', '--address.city', '1']);
+
+    expect(result.code).toBe(1);
+    expect(result.stdout).toBe('');
+    expect(result.stderr).toMatch(/^Invalid input:\n {2}- age: .+\n {2}- address\.city: .+$/);
+  });
+
+  it('should report invalid input passed to a nested operation as an error', async () => {
+    const result = await run(['createBadly']);
+
+    expect(result.code).toBe(1);
+    expect(result.stderr).toMatch(/^Error: /);
+  });
+
+  it('should print tables', async () => {
+    const list = await run(['users.list', '--format', 'table']);
+    const single = await run(['users.create', '--name', 'Ada', '--age', '36', '--format=table']);
+
+    expect(list.stdout).toBe(['id  name', '1   Ada', '2   Grace'].join('\n'));
+    expect(single.stdout).toBe(['key   value', 'id    1', 'name  Ada', 'age   36'].join('\n'));
+  });
+
+  it('should list operations with --help', async () => {
+    const result = await run(['--help']);
+
+    expect(result.code).toBe(0);
+    expect(result.stdout).toContain('Usage: ops <operation>');
+    expect(result.stdout).toContain('  users.create  Create a user');
+    expect(result.stdout).toContain('  users.list');
+    expect(result.stdout).toContain('  fail');
+  });
+
+  it('should exit non-zero for missing or unknown operations', async () => {
+    const missing = await run([]);
+    const unknown = await run(['users.delete']);
+
+    expect(missing.code).toBe(1);
+    expect(missing.stderr).toContain('Operations:');
+    expect(unknown.code).toBe(1);
+    expect(unknown.stderr).toContain('Unknown operation "users.delete"');
+  });
+
+  it('should report handler errors and unreadable input', async () => {
+    const failed = await run(['fail']);
+    const unreadable = await run(['users.create', 'missing.json']);
+    const malformed = await run(['users.create', '--json', '{']);
+
+    expect(failed).toMatchObject({ code: 1, stderr: 'Error: database is down' });
+    expect(unreadable.code).toBe(1);
+    expect(unreadable.stderr).toContain('Could not read input: ENOENT');
+    expect(malformed.code).toBe(1);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import {
+  Opa,
+  createClient,
+  createFetchHandler,
+  defineOperation,
+  fetchTransport,
+  inProcessTransport,
+  RemoteOperationError,
+  ValidationError,
+  type ClientTransport,
+} from '../src/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+
+const createUser = defineOperation<{ users: string[] }>()(
+  'createUser',
+  async ({ input, ctx }) => {
+    ctx.users.push(input.name);
+    return { id: ctx.users.length, name: input.name };
+  },
+  z.object({ name: z.string().min(1) }),
+);
+
+const add = Opa.create()
+  .operation.input(v.object({ a: v.number(), b: v.number() }))
+  .handler(async ({ input }) => input.a + input.b);
+
+const fail = Opa.create()
+  .operation.input(v.object({}))
+  .handler(async () => {
+    throw new Error('database is down');
+  });
+
+const operations = { createUser, math: { add }, fail };
+
+describe('createClient()', () => {
+  it('should type calls from the operations', () => {
+    const client = createClient<typeof operations>(inProcessTransport(operations, { users: [] }));
+
+    expectTypeOf(client.createUser).toEqualTypeOf<(input: { name: string }) => Promise<{ id: number; name: string }>>();
+    expectTypeOf(client.math.add).returns.resolves.toEqualTypeOf<number>();
+    // @ts-expect-error unknown operation
+    client.deleteUser;
+  });
+
+  describe('inProcessTransport()', () => {
+    it('should execute operations with the bound context', async () => {
+      const ctx = { users: [] as string[] };
+      const client = createClient<typeof operations>(inProcessTransport(operations, ctx));
+
+      expect(await client.createUser({ name: 'Ada' })).toEqual({ id: 1, name: 'Ada' });
+      expect(await client.math.add({ a: 1, b: 2 })).toBe(3);
+      expect(ctx.users).toEqual(['Ada']);
+    });
+
+    it('should accept a router', async () => {
+      const router = Opa.router({ math: { add } });
+      const client = createClient<typeof router>(inProcessTransport(router));
+
+      expect(await client.math.add({ a: 2, b: 2 })).toBe(4);
+    });
+  });
+
+  describe('fetchTransport()', () => {
+    const handler = createFetchHandler(operations, { basePath: '/rpc', ctx: () => ({ users: [] }) });
+    const transport = fetchTransport({
+      url: 'http://localhost/rpc/',
+      headers: () => ({ authorization: 'Bearer token' }),
+      fetch: (url, init) => handler(new Request(url, init)),
+    });
+
+    it('should call operations served by createFetchHandler', async () => {
+      const client = createClient<typeof operations>(transport);
+
+      expect(await client.math.add({ a: 1, b: 1 })).toBe(2);
+      expect(await client.createUser({ name: 'Ada' })).toEqual({ id: 1, name: 'Ada' });
+    });
+
+    it('should post JSON to the operation path with headers', async () => {
+      const send = vi.fn(async () => Response.json(3));
+      const client = createClient<typeof operations>(
+        fetchTransport({ url: 'https://api.example.com', headers: { authorization: 'Bearer token' }, fetch: send }),
+      );
+
+      await client.math.add({ a: 1, b: 2 });
+
+      expect(send).toHaveBeenCalledWith('https://api.example.com/math/add', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', authorization: 'Bearer token' },
+        body: '{"a":1,"b":2}',
+      });
+    });
+
+    it('should turn validation responses back into validation errors', async () => {
+      const client = createClient<typeof operations>(transport);
+      const error = await client.createUser({ name: '' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.paths).toEqual(['name']);
+    });
+
+    it('should reject other failures with a remote operation error', async () => {
+      const client = createClient<typeof operations>(transport);
+      const error = await client.fail({}).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RemoteOperationError);
+      expect(error).toMatchObject({ path: 'fail', status: 500, code: 'INTERNAL_SERVER_ERROR' });
+    });
+  });
+
+  it('should support custom transports', async () => {
+    const calls: Array<[string, unknown]> = [];
+    const transport: ClientTransport = {
+      async call(path, input) {
+        calls.push([path, input]);
+        return 42;
+      },
+    };
+    const client = createClient<typeof operations>(transport);
+
+    expect(await client.math.add({ a: 40, b: 2 })).toBe(42);
+    expect(calls).toEqual([['math.add', { a: 40, b: 2 }]]);
+  });
+
+  it('should validate input before sending when given the operations', async () => {
+    const call = vi.fn(async () => 0);
+    const client = createClient<typeof operations>({ call }, { validate: operations });
+
+    const error = await client.math.add({ a: 1, b: 'two' } as any).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.operation).toBe(add);
+    expect(call).not.toHaveBeenCalled();
+
+    await client.math.add({ a: 1, b: 2 });
+    expect(call).toHaveBeenCalledWith('math.add', { a: 1, b: 2 });
+  });
+
+  it('should not be mistaken for a promise', async () => {
+    const client = createClient<typeof operations>(inProcessTransport(operations));
+    const resolved = await Promise.resolve(client);
+
+    expect(resolved).toBe(client);
+  });
+});
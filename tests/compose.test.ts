@@ -0,0 +1,338 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { Opa, all, defineOperation, map, pipe, race, toJsonSchema, ValidationError } from '../src/index.js';
+import type { ExecuteOptions, OperationResult } from '../src/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+
+describe('Composition', () => {
+  describe('pipe()', () => {
+    const parse = Opa.create()
+      .operation.input(z.object({ csv: z.string() }))
+      .handler(async ({ input }) => input.csv.split(','));
+
+    const enrich = Opa.create()
+      .operation.input(z.array(z.string()))
+      .handler(async ({ input }) => input.map((name) => ({ name, length: name.length })));
+
+    const summarize = Opa.create()
+      .operation.input(v.array(v.object({ name: v.string(), length: v.number() })))
+      .handler(async ({ input }) => input.reduce((total, item) => total + item.length, 0));
+
+    it('should run operations in sequence', async () => {
+      const pipeline = pipe(parse, enrich, summarize);
+
+      expect(await pipeline.execute({ csv: 'ab,cde' })).toBe(5);
+      expectTypeOf(pipeline.execute).parameter(0).toEqualTypeOf<{ csv: string }>();
+      expectTypeOf(pipeline.execute).returns.resolves.toEqualTypeOf<number>();
+    });
+
+    it('should expose its steps and the first step schema', () => {
+      const pipeline = pipe(parse, enrich, summarize);
+
+      expect(pipeline.steps).toEqual([parse, enrich, summarize]);
+      expect(pipeline.schema).toBe(parse.schema);
+      expectTypeOf(pipeline.steps).toEqualTypeOf<readonly [typeof parse, typeof enrich, typeof summarize]>();
+    });
+
+    it('should validate the input once with the first step', async () => {
+      const validate = vi.spyOn(parse.schema['~standard'], 'validate');
+      const pipeline = pipe(parse, enrich);
+
+      await expect(pipeline.execute({ csv: 1 } as any)).rejects.toBeInstanceOf(ValidationError);
+      expect(await pipeline.execute({ csv: 'a' })).toEqual([{ name: 'a', length: 1 }]);
+      expect(validate).toHaveBeenCalledTimes(2);
+      validate.mockRestore();
+    });
+
+    it('should validate between steps unless revalidate is off', async () => {
+      const loose = Opa.create()
+        .operation.input(v.object({ n: v.number() }))
+        .handler(async ({ input }) => input.n as unknown as string);
+      const strict = Opa.create()
+        .operation.input(z.string())
+        .handler(async ({ input }) => `got ${input}`);
+
+      await expect(pipe(loose, strict).execute({ n: 1 })).rejects.toBeInstanceOf(ValidationError);
+      expect(await pipe({ revalidate: false }, loose, strict).execute({ n: 1 })).toBe('got 1');
+    });
+
+    it('should reject incompatible steps at compile time', () => {
+      // @ts-expect-error enrich returns objects, parse needs { csv }
+      pipe(enrich, parse);
+      // @ts-expect-error summarize needs enriched items
+      pipe(parse, summarize);
+    });
+
+    describe('context', () => {
+      interface Db {
+        db: { saved: string[] };
+      }
+
+      const persist = defineOperation<Db>()(
+        'persist',
+        async ({ input, ctx }) => {
+          ctx.db.saved.push(...input);
+          return ctx.db.saved.length;
+        },
+        z.array(z.string()),
+      );
+
+      it('should share the per-call context with every step', async () => {
+        const audit = defineOperation<{ db: { saved: string[] }; user: string }>()(
+          'audit',
+          async ({ input, ctx }) => `${ctx.user} saved ${input} of ${ctx.db.saved.length}`,
+          z.number(),
+        );
+        const pipeline = pipe(parse, persist, audit);
+        const ctx = { db: { saved: [] as string[] }, user: 'ada' };
+
+        expect(await pipeline.execute({ csv: 'a,b' }, { ctx })).toBe('ada saved 2 of 2');
+        expectTypeOf(pipeline.execute)
+          .parameter(1)
+          .toEqualTypeOf<{ ctx: Db & { db: { saved: string[] }; user: string } } & ExecuteOptions>();
+      });
+
+      it('should require the context when a step requires one', () => {
+        const pipeline = pipe(parse, persist);
+
+        // @ts-expect-error persist needs a db
+        pipeline.execute({ csv: 'a' }).catch(() => {});
+      });
+
+      it('should let steps resolve their bound contexts when none is given', async () => {
+        const prefixed = Opa.context({ prefix: '>' })
+          .create()
+          .operation.input(z.array(z.string()))
+          .handler(async ({ input, ctx }) => [ctx.prefix, ...input].join(' '));
+        const pipeline = pipe(parse, prefixed);
+
+        expect(await pipeline.execute({ csv: 'a,b' })).toBe('> a b');
+      });
+    });
+  });
+
+  describe('all()', () => {
+    const byId = Opa.create()
+      .operation.input(z.object({ id: z.string() }))
+      .handler(async ({ input }) => ({ id: input.id, name: 'Ada' }));
+
+    const postsOf = Opa.create()
+      .operation.input(v.object({ id: v.string(), limit: v.optional(v.number()) }))
+      .handler(async ({ input }) => Array.from({ length: input.limit ?? 2 }, (_, i) => `${input.id}-${i}`));
+
+    const failing = Opa.create()
+      .operation.input(z.object({ id: z.string() }))
+      .handler(async (): Promise<number> => {
+        throw new Error('boom');
+      });
+
+    it('should run a record of operations on the same input', async () => {
+      const profile = all({ user: byId, posts: postsOf });
+
+      expect(await profile.execute({ id: 'u1' })).toEqual({ user: { id: 'u1', name: 'Ada' }, posts: ['u1-0', 'u1-1'] });
+      expectTypeOf(profile.execute).parameter(0).toEqualTypeOf<{ id: string } & { id: string; limit?: number }>();
+      expectTypeOf(profile.execute).returns.resolves.toEqualTypeOf<{
+        user: { id: string; name: string };
+        posts: string[];
+      }>();
+    });
+
+    it('should run a tuple of operations in parallel', async () => {
+      let running = 0;
+      let peak = 0;
+      const slow = Opa.create()
+        .operation.input(z.object({ id: z.string() }))
+        .handler(async ({ input }) => {
+          peak = Math.max(peak, ++running);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running--;
+          return input.id.length;
+        });
+      const both = all([slow, slow, byId]);
+
+      expect(await both.execute({ id: 'abc' })).toEqual([3, 3, { id: 'abc', name: 'Ada' }]);
+      expect(peak).toBe(2);
+      expectTypeOf(both.execute).returns.resolves.toEqualTypeOf<[number, number, { id: string; name: string }]>();
+    });
+
+    it('should reject with the first failure', async () => {
+      await expect(all({ user: byId, count: failing }).execute({ id: 'u1' })).rejects.toThrow('boom');
+    });
+
+    it('should collect per-branch results in settle mode', async () => {
+      const results = await all({ user: byId, count: failing }, { settle: true }).execute({ id: 'u1' });
+
+      expect(results.user).toEqual({ ok: true, value: { id: 'u1', name: 'Ada' } });
+      expect(results.count).toMatchObject({ ok: false, error: { kind: 'handler' } });
+      expectTypeOf(results).toEqualTypeOf<{
+        user: OperationResult<{ id: string; name: string }>;
+        count: OperationResult<number>;
+      }>();
+    });
+
+    it('should report validation issues of every branch', async () => {
+      const error = await all([byId, postsOf])
+        .execute({ id: 1 } as any)
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.issues).toHaveLength(2);
+    });
+
+    it('should describe the input as the combination of branch schemas', () => {
+      const { input } = toJsonSchema(all({ user: byId, posts: postsOf }));
+
+      expect(input.allOf).toEqual([
+        expect.objectContaining({ type: 'object', required: ['id'] }),
+        expect.objectContaining({ type: 'object', required: ['id'] }),
+      ]);
+    });
+
+    it('should share the per-call context with every branch', async () => {
+      const greet = defineOperation<{ greeting: string }>()(
+        'greet',
+        async ({ input, ctx }) => `${ctx.greeting} ${input.id}`,
+        z.object({ id: z.string() }),
+      );
+      const both = all({ greet, user: byId });
+
+      expect(await both.execute({ id: 'u1' }, { ctx: { greeting: 'hi' } })).toMatchObject({ greet: 'hi u1' });
+      expectTypeOf(both.execute).parameter(1).toEqualTypeOf<{ ctx: { greeting: string } } & ExecuteOptions>();
+    });
+  });
+
+  describe('race()', () => {
+    const after = <T>(ms: number, value: T) =>
+      Opa.create()
+        .operation.input(z.object({ key: z.string() }))
+        .handler(() => new Promise<T>((resolve) => setTimeout(() => resolve(value), ms)));
+
+    it('should settle with the fastest operation', async () => {
+      const lookup = race([after(20, 'replica'), after(1, 0)]);
+
+      expect(await lookup.execute({ key: 'k' })).toBe(0);
+      expectTypeOf(lookup.execute).returns.resolves.toEqualTypeOf<string | number>();
+    });
+
+    it('should reject when the fastest operation fails', async () => {
+      const failing = Opa.create()
+        .operation.input(z.object({ key: z.string() }))
+        .handler(async () => {
+          throw new Error('down');
+        });
+
+      await expect(race({ cache: failing, db: after(20, 'db') }).execute({ key: 'k' })).rejects.toThrow('down');
+    });
+
+    it('should abort the operations that lose the race', async () => {
+      let loserSignal: AbortSignal | undefined;
+      const slow = Opa.create()
+        .operation.input(z.object({ key: z.string() }))
+        .handler(({ signal }) => {
+          loserSignal = signal;
+          return new Promise<string>((resolve) => setTimeout(() => resolve('slow'), 1_000));
+        });
+
+      expect(await race([after(1, 'fast'), slow]).execute({ key: 'k' })).toBe('fast');
+      expect(loserSignal?.aborted).toBe(true);
+    });
+  });
+
+  describe('map()', () => {
+    const double = Opa.create()
+      .operation.input(z.object({ n: z.number() }))
+      .handler(async ({ input }) => {
+        if (input.n < 0) throw new Error(`negative: ${input.n}`);
+        return input.n * 2;
+      });
+
+    it('should run the operation for every item, in order', async () => {
+      const doubleAll = map(double);
+
+      expect(await doubleAll.execute([{ n: 1 }, { n: 2 }, { n: 3 }])).toEqual([2, 4, 6]);
+      expect(doubleAll.steps).toEqual([double]);
+      expectTypeOf(doubleAll.execute).parameter(0).toEqualTypeOf<{ n: number }[]>();
+      expectTypeOf(doubleAll.execute).returns.resolves.toEqualTypeOf<number[]>();
+    });
+
+    it('should limit concurrency', async () => {
+      let running = 0;
+      let peak = 0;
+      const slow = Opa.create()
+        .operation.input(z.number())
+        .handler(async ({ input }) => {
+          peak = Math.max(peak, ++running);
+          await new Promise((resolve) => setTimeout(resolve, 10 - input));
+          running--;
+          return input;
+        });
+
+      expect(await map(slow, { concurrency: 2 }).execute([1, 2, 3, 4, 5])).toEqual([1, 2, 3, 4, 5]);
+      expect(peak).toBe(2);
+    });
+
+    it('should reject invalid concurrency limits', () => {
+      expect(() => map(double, { concurrency: 0 })).toThrow(RangeError);
+    });
+
+    it('should validate every item up front, reporting issues at their index', async () => {
+      const handler = vi.fn();
+      const spied = Opa.create()
+        .operation.input(z.object({ n: z.number() }))
+        .handler(async ({ input }) => handler(input));
+
+      const error = await map(spied)
+        .execute([{ n: 1 }, { n: 'two' }] as any)
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.paths).toEqual(['[1].n']);
+      expect(handler).not.toHaveBeenCalled();
+      await expect(map(spied).execute({ n: 1 } as any)).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should stop starting items after a failure', async () => {
+      const seen: number[] = [];
+      const tracked = Opa.create()
+        .operation.input(z.number())
+        .handler(async ({ input }) => {
+          seen.push(input);
+          if (input === 2) throw new Error('two');
+          return input;
+        });
+
+      await expect(map(tracked, { concurrency: 1 }).execute([1, 2, 3])).rejects.toThrow('two');
+      expect(seen).toEqual([1, 2]);
+    });
+
+    it('should abort items still running after a failure', async () => {
+      const signals: AbortSignal[] = [];
+      const tracked = Opa.create()
+        .operation.input(z.number())
+        .handler(async ({ input, signal }) => {
+          signals.push(signal);
+          if (input === 1) throw new Error('one');
+          await new Promise((resolve) => setTimeout(resolve, 1_000));
+          return input;
+        });
+
+      await expect(map(tracked).execute([1, 2, 3])).rejects.toThrow('one');
+      expect(signals.map((signal) => signal.aborted)).toEqual([false, true, true]);
+    });
+
+    it('should collect per-item results in settle mode', async () => {
+      const results = await map(double, { settle: true }).execute([{ n: 1 }, { n: -1 }]);
+
+      expect(results[0]).toEqual({ ok: true, value: 2 });
+      expect(results[1]).toMatchObject({ ok: false, error: { kind: 'handler' } });
+      expectTypeOf(results).toEqualTypeOf<OperationResult<number>[]>();
+    });
+
+    it('should describe the input as an array of the item schema', () => {
+      expect(toJsonSchema(map(double)).input).toMatchObject({
+        type: 'array',
+        items: { type: 'object', required: ['n'] },
+      });
+    });
+  });
+});
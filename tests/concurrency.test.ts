@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Opa, ConcurrencyLimitError, OperationAbortedError, isConcurrencyLimitError } from '../src/index.js';
+import type { ConcurrencyOptions } from '../src/index.js';
+import { z } from 'zod';
+
+// Operation whose executions wait until released by hand
+function gatedOperation(options: ConcurrencyOptions<{ userId: string; job: number }>) {
+  const gates = new Map<number, () => void>();
+  const started: number[] = [];
+  const operation = Opa.create()
+    .operation.input(z.object({ userId: z.string(), job: z.number() }))
+    .meta({ name: 'export' })
+    .concurrency(options)
+    .handler(async ({ input }) => {
+      started.push(input.job);
+      await new Promise<void>((resolve) => gates.set(input.job, resolve));
+      return input.job;
+    });
+
+  const finish = async (job: number) => {
+    await vi.waitFor(() => expect(gates.has(job)).toBe(true));
+    gates.get(job)!();
+  };
+  return { operation, started, finish };
+}
+
+// Let queued executions reach the handler
+const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+describe('concurrency()', () => {
+  it('should run at most `max` executions at once and queue the rest', async () => {
+    const { operation, started, finish } = gatedOperation({ max: 2 });
+
+    const results = [1, 2, 3, 4].map((job) => operation.execute({ userId: 'u', job }));
+    await settle();
+    expect(started).toEqual([1, 2]);
+    expect(operation.concurrencyStats()).toEqual({ running: 2, queued: 2 });
+
+    await finish(1);
+    await settle();
+    expect(started).toEqual([1, 2, 3]);
+    expect(operation.concurrencyStats()).toEqual({ running: 2, queued: 1 });
+
+    await finish(2);
+    await finish(3);
+    await finish(4);
+    expect(await Promise.all(results)).toEqual([1, 2, 3, 4]);
+    expect(operation.concurrencyStats()).toEqual({ running: 0, queued: 0 });
+  });
+
+  it('should start the most recently queued execution first with a lifo queue', async () => {
+    const { operation, started, finish } = gatedOperation({ max: 1, queue: 'lifo' });
+
+    const results = [1, 2, 3].map((job) => operation.execute({ userId: 'u', job }));
+    await finish(1);
+    await finish(3);
+    await finish(2);
+    await Promise.all(results);
+
+    expect(started).toEqual([1, 3, 2]);
+  });
+
+  it('should reject with a ConcurrencyLimitError once the queue is full', async () => {
+    const { operation, finish } = gatedOperation({ max: 1, maxQueued: 1 });
+
+    const running = operation.execute({ userId: 'u', job: 1 });
+    const queued = operation.execute({ userId: 'u', job: 2 });
+    const error = await operation.execute({ userId: 'u', job: 3 }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(ConcurrencyLimitError);
+    expect(isConcurrencyLimitError(error)).toBe(true);
+    expect(error).toMatchObject({ max: 1, maxQueued: 1, key: undefined, operation });
+    expect(error.message).toBe('Operation "export" is at its concurrency limit (1 running, 1 queued)');
+
+    const result = await operation.safeExecute({ userId: 'u', job: 4 });
+    expect(!result.ok && result.error.kind).toBe('rejected');
+
+    await finish(1);
+    await finish(2);
+    await Promise.all([running, queued]);
+  });
+
+  it('should limit executions per key', async () => {
+    const { operation, started, finish } = gatedOperation({ max: 1, key: (input) => input.userId });
+
+    const results = [
+      operation.execute({ userId: 'ada', job: 1 }),
+      operation.execute({ userId: 'ada', job: 2 }),
+      operation.execute({ userId: 'bob', job: 3 }),
+    ];
+    await settle();
+
+    expect(started).toEqual([1, 3]);
+    expect(operation.concurrencyStats('ada')).toEqual({ running: 1, queued: 1 });
+    expect(operation.concurrencyStats('bob')).toEqual({ running: 1, queued: 0 });
+    expect(operation.concurrencyStats()).toEqual({ running: 2, queued: 1 });
+
+    await finish(1);
+    await finish(2);
+    await finish(3);
+    await Promise.all(results);
+  });
+
+  it('should free the slot when the handler fails', async () => {
+    const handler = vi.fn(async ({ input }: { input: number }) => {
+      if (input === 1) throw new Error('boom');
+      return input;
+    });
+    const operation = Opa.create().operation.input(z.number()).concurrency({ max: 1 }).handler(handler);
+
+    const [first, second] = await Promise.allSettled([operation.execute(1), operation.execute(2)]);
+
+    expect(first.status).toBe('rejected');
+    expect(second).toEqual({ status: 'fulfilled', value: 2 });
+  });
+
+  it('should drop aborted executions from the queue', async () => {
+    const { operation, started, finish } = gatedOperation({ max: 1 });
+    const controller = new AbortController();
+
+    const running = operation.execute({ userId: 'u', job: 1 });
+    const aborted = operation.execute({ userId: 'u', job: 2 }, { signal: controller.signal });
+    await settle();
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(OperationAbortedError);
+    expect(operation.concurrencyStats()).toEqual({ running: 1, queued: 0 });
+
+    await finish(1);
+    await running;
+    expect(started).toEqual([1]);
+  });
+
+  it('should reject invalid limits', () => {
+    const builder = Opa.create().operation.input(z.string());
+
+    expect(() => builder.concurrency({ max: 0 })).toThrow(RangeError);
+    expect(() => builder.concurrency({ max: 1, maxQueued: -1 })).toThrow(RangeError);
+  });
+});
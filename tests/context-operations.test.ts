@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest';
-import { Opa } from '../src/index.js';
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { Opa, ContextResolutionError, ValidationError, isContextResolutionError } from '../src/index.js';
+import type { ExecuteOptions } from '../src/index.js';
 import * as v from 'valibot';
 import { z } from 'zod';
 import { type } from 'arktype';
@@ -128,6 +129,143 @@ describe('Context Operations', () => {
     });
   });
 
+  describe('Context factories', () => {
+    it('should call a sync factory on every execute', async () => {
+      let requests = 0;
+      const operation = Opa.context(() => ({ requestId: ++requests }))
+        .create()
+        .operation.input(v.object({ name: v.string() }))
+        .handler(async ({ input, ctx }) => {
+          expectTypeOf(ctx).toEqualTypeOf<{ requestId: number }>();
+          return `${input.name}#${ctx.requestId}`;
+        });
+
+      expect(await operation.execute({ name: 'a' })).toBe('a#1');
+      expect(await operation.execute({ name: 'b' })).toBe('b#2');
+    });
+
+    it('should await an async factory', async () => {
+      const operation = Opa.context(async () => ({ user: await Promise.resolve({ id: 7 }) }))
+        .create()
+        .operation.input(z.object({ action: z.string() }))
+        .handler(async ({ input, ctx }) => {
+          expectTypeOf(ctx).toEqualTypeOf<{ user: { id: number } }>();
+          return `${ctx.user.id}:${input.action}`;
+        });
+
+      expect(await operation.execute({ action: 'read' })).toBe('7:read');
+    });
+
+    it('should not resolve the context for invalid input', async () => {
+      const factory = vi.fn(() => ({ db: 'tx' }));
+      const operation = Opa.context(factory)
+        .create()
+        .operation.input(type({ id: 'number' }))
+        .handler(async ({ ctx }) => ctx.db);
+
+      await expect(operation.execute({ id: 'x' } as any)).rejects.toBeInstanceOf(ValidationError);
+      expect(factory).not.toHaveBeenCalled();
+    });
+
+    it('should surface factory failures as ContextResolutionError', async () => {
+      const cause = new Error('Connection refused');
+      const handler = vi.fn(async () => 'never');
+      const operation = Opa.context(async (): Promise<{ db: string }> => {
+        throw cause;
+      })
+        .create()
+        .operation.input(v.object({}))
+        .handler(handler);
+
+      const error = await operation.execute({}).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ContextResolutionError);
+      expect(isContextResolutionError(error)).toBe(true);
+      expect(error.cause).toBe(cause);
+      expect(error.message).toContain('Connection refused');
+      expect(error.operation).toBe(operation);
+      expect(handler).not.toHaveBeenCalled();
+
+      const result = await operation.safeExecute({});
+      expect(!result.ok && result.error.kind).toBe('context');
+    });
+
+    it('should keep handler errors distinct from context errors', async () => {
+      const operation = Opa.context(() => ({ ok: true }))
+        .create()
+        .operation.input(v.object({}))
+        .handler(async () => {
+          throw new Error('Handler failed');
+        });
+
+      const error = await operation.execute({}).catch((e) => e);
+
+      expect(isContextResolutionError(error)).toBe(false);
+      expect(error.message).toBe('Handler failed');
+    });
+  });
+
+  describe('Per-call context', () => {
+    interface TenantContext {
+      tenant: string;
+      db: { find: (id: number) => string };
+    }
+
+    it('should require a context when only its type was declared', async () => {
+      const operation = Opa.context<TenantContext>()
+        .create()
+        .operation.input(v.object({ id: v.number() }))
+        .handler(async ({ input, ctx }) => `${ctx.tenant}:${ctx.db.find(input.id)}`);
+
+      const acme = { tenant: 'acme', db: { find: (id: number) => `acme-${id}` } };
+      const globex = { tenant: 'globex', db: { find: (id: number) => `globex-${id}` } };
+
+      expect(await operation.execute({ id: 1 }, { ctx: acme })).toBe('acme:acme-1');
+      expect(await operation.execute({ id: 2 }, { ctx: globex })).toBe('globex:globex-2');
+      expectTypeOf(operation.execute).parameter(1).toEqualTypeOf<{ ctx: TenantContext } & ExecuteOptions>();
+
+      // @ts-expect-error the context is required
+      const error = await operation.execute({ id: 1 }).catch((e) => e);
+      expect(error).toBeInstanceOf(ContextResolutionError);
+    });
+
+    it('should let a per-call context override the bound one', async () => {
+      const factory = vi.fn(() => ({ tenant: 'default' }));
+      const operation = Opa.context(factory)
+        .create()
+        .operation.input(v.object({ name: v.string() }))
+        .handler(async ({ input, ctx }) => `${ctx.tenant}:${input.name}`);
+
+      expect(await operation.execute({ name: 'a' })).toBe('default:a');
+      expect(await operation.execute({ name: 'b' }, { ctx: { tenant: 'test-double' } })).toBe('test-double:b');
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('should still validate input with a per-call context', async () => {
+      const operation = Opa.context<{ tenant: string }>()
+        .create()
+        .operation.input(z.object({ id: z.number() }))
+        .handler(async ({ input, ctx }) => `${ctx.tenant}:${input.id}`);
+
+      await expect(operation.execute({ id: 'x' } as any, { ctx: { tenant: 'acme' } })).rejects.toBeInstanceOf(
+        ValidationError,
+      );
+
+      const result = await operation.safeExecute({ id: 1 }, { ctx: { tenant: 'acme' } });
+      expect(result).toEqual({ ok: true, value: 'acme:1' });
+    });
+
+    it('should pass the per-call context through middleware', async () => {
+      const operation = Opa.context<{ token: string }>()
+        .create()
+        .use(async ({ ctx, next }) => next({ ctx: { user: ctx.token.toUpperCase() } }))
+        .operation.input(v.object({}))
+        .handler(async ({ ctx }) => ctx.user);
+
+      expect(await operation.execute({}, { ctx: { token: 'abc' } })).toBe('ABC');
+    });
+  });
+
   describe('Context vs Context-free comparison', () => {
     it('should handle same logic with and without context', async () => {
       const schema = v.object({ name: v.string() });
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Opa, OperationAbortedError, ValidationError } from '../src/index.js';
+import { z } from 'zod';
+
+// Promise settled from the outside
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('dedupe()', () => {
+  it('should share one handler call between concurrent executions with equal input', async () => {
+    const gate = deferred<void>();
+    const handler = vi.fn(async ({ input }: { input: { id: string; fields: string[] } }) => {
+      await gate.promise;
+      return { id: input.id };
+    });
+    const operation = Opa.create()
+      .operation.input(z.object({ id: z.string(), fields: z.array(z.string()) }))
+      .dedupe()
+      .handler(handler);
+
+    const results = Promise.all([
+      operation.execute({ id: '1', fields: ['name'] }),
+      operation.execute({ fields: ['name'], id: '1' }),
+      operation.execute({ id: '2', fields: ['name'] }),
+    ]);
+    gate.resolve();
+
+    expect(await results).toEqual([{ id: '1' }, { id: '1' }, { id: '2' }]);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share calls for bigint, map and set inputs by their content', async () => {
+    const gate = deferred<void>();
+    const handler = vi.fn(async () => {
+      await gate.promise;
+      return 'ok';
+    });
+    const operation = Opa.create()
+      .operation.input(z.object({ amount: z.bigint(), tags: z.set(z.string()), limits: z.map(z.string(), z.number()) }))
+      .dedupe()
+      .handler(handler);
+
+    const results = Promise.all([
+      operation.execute({ amount: 1n, tags: new Set(['a']), limits: new Map([['x', 1]]) }),
+      operation.execute({ amount: 1n, tags: new Set(['a']), limits: new Map([['x', 1]]) }),
+      operation.execute({ amount: 2n, tags: new Set(['a']), limits: new Map([['x', 1]]) }),
+      operation.execute({ amount: 1n, tags: new Set(['b']), limits: new Map([['x', 2]]) }),
+    ]);
+    gate.resolve();
+
+    expect(await results).toEqual(['ok', 'ok', 'ok', 'ok']);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject every waiter when the shared call fails', async () => {
+    const gate = deferred<void>();
+    const handler = vi.fn(async () => {
+      await gate.promise;
+      throw new Error('db down');
+    });
+    const operation = Opa.create().operation.input(z.string()).dedupe().handler(handler);
+
+    const first = operation.execute('a');
+    const second = operation.execute('a');
+    gate.resolve();
+
+    await expect(first).rejects.toThrow('db down');
+    await expect(second).rejects.toThrow('db down');
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep nothing once the call settles', async () => {
+    const handler = vi.fn(async ({ input }: { input: string }) => input);
+    const operation = Opa.create().operation.input(z.string()).dedupe().handler(handler);
+
+    await operation.execute('a');
+    await operation.execute('a');
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use a custom key function', async () => {
+    const gate = deferred<void>();
+    const handler = vi.fn(async ({ input }: { input: { userId: string; requestId: string } }) => {
+      await gate.promise;
+      return input.requestId;
+    });
+    const operation = Opa.create()
+      .operation.input(z.object({ userId: z.string(), requestId: z.string() }))
+      .dedupe({ key: (input) => input.userId })
+      .handler(handler);
+
+    const results = Promise.all([
+      operation.execute({ userId: 'u1', requestId: 'r1' }),
+      operation.execute({ userId: 'u1', requestId: 'r2' }),
+    ]);
+    gate.resolve();
+
+    expect(await results).toEqual(['r1', 'r1']);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not share calls between executions given a per-call context without a key', async () => {
+    const gate = deferred<void>();
+    const handler = vi.fn(async ({ ctx }: { input: string; ctx: { tenantId: string } }) => {
+      await gate.promise;
+      return ctx.tenantId;
+    });
+    const operation = Opa.context<{ tenantId: string }>()
+      .create()
+      .operation.input(z.string())
+      .dedupe()
+      .handler(handler);
+    const keyed = Opa.context<{ tenantId: string }>()
+      .create()
+      .operation.input(z.string())
+      .dedupe({ key: (input, ctx) => `${ctx.tenantId}:${input}` })
+      .handler(handler);
+
+    const results = Promise.all([
+      operation.execute('report', { ctx: { tenantId: 'acme' } }),
+      operation.execute('report', { ctx: { tenantId: 'globex' } }),
+      keyed.execute('report', { ctx: { tenantId: 'acme' } }),
+      keyed.execute('report', { ctx: { tenantId: 'acme' } }),
+    ]);
+    gate.resolve();
+
+    expect(await results).toEqual(['acme', 'globex', 'acme', 'acme']);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should keep the shared call running while another waiter is left', async () => {
+    const gate = deferred<void>();
+    let sharedSignal: AbortSignal | undefined;
+    const operation = Opa.create()
+      .operation.input(z.string())
+      .dedupe()
+      .handler(async ({ input, signal }) => {
+        sharedSignal = signal;
+        await gate.promise;
+        return input;
+      });
+    const controller = new AbortController();
+
+    const aborted = operation.execute('a', { signal: controller.signal });
+    const waiting = operation.execute('a');
+    controller.abort();
+    gate.resolve();
+
+    await expect(aborted).rejects.toBeInstanceOf(OperationAbortedError);
+    expect(await waiting).toBe('a');
+    expect(sharedSignal?.aborted).toBe(false);
+  });
+
+  it('should abort the shared call once every waiter has aborted', async () => {
+    const handler = vi.fn(async ({ input, signal }: { input: string; signal: AbortSignal }) => {
+      await new Promise((resolve) => signal.addEventListener('abort', resolve));
+      return input;
+    });
+    const operation = Opa.create().operation.input(z.string()).dedupe().handler(handler);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const results = [
+      operation.execute('a', { signal: first.signal }).catch((error) => error),
+      operation.execute('a', { signal: second.signal }).catch((error) => error),
+    ];
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+    first.abort();
+    second.abort();
+
+    expect(await Promise.all(results)).toEqual([expect.any(OperationAbortedError), expect.any(OperationAbortedError)]);
+    expect(handler.mock.calls[0][0].signal.aborted).toBe(true);
+
+    // A new call starts a fresh flight instead of joining the aborted one
+    const third = new AbortController();
+    const fresh = operation.execute('a', { signal: third.signal }).catch(() => {});
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+    third.abort();
+    await fresh;
+  });
+
+  it('should validate every call on its own', async () => {
+    const gate = deferred<void>();
+    const operation = Opa.create()
+      .operation.input(z.string())
+      .dedupe()
+      .handler(async ({ input }) => {
+        await gate.promise;
+        return input;
+      });
+
+    const valid = operation.execute('a');
+    const invalid = operation.execute(1 as any);
+    gate.resolve();
+
+    expect(await valid).toBe('a');
+    await expect(invalid).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import {
+  Opa,
+  defineOperation,
+  operationWithContextFactory,
+  ContextResolutionError,
+  ValidationError,
+} from '../src/index.js';
+import type { ExecuteOptions } from '../src/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+
+describe('Named Operations', () => {
+  describe('defineOperation()', () => {
+    it('should define a named operation without context', async () => {
+      const schema = z.object({ name: z.string() });
+      const greetOp = defineOperation('greet', async ({ input }) => `Hello ${input.name}`, schema);
+
+      expect(greetOp.name).toBe('greet');
+      expectTypeOf(greetOp.name).toEqualTypeOf<'greet'>();
+      expect(greetOp.schema).toBe(schema);
+      expect(await greetOp.execute({ name: 'Ada' })).toBe('Hello Ada');
+      expect(await greetOp.handler({ input: { name: 'Direct' } })).toBe('Hello Direct');
+    });
+
+    it('should pass the schema to the handler', async () => {
+      const schema = v.object({ id: v.number() });
+      const handler = vi.fn(({ input, schema }) => ({ id: input.id, hasSchema: schema !== undefined }));
+      const lookupOp = defineOperation('lookup', handler, schema);
+
+      expect(await lookupOp.execute({ id: 1 })).toEqual({ id: 1, hasSchema: true });
+      expect(handler.mock.calls[0][0].schema).toBe(schema);
+    });
+
+    it('should accept synchronous handlers', async () => {
+      const doubleOp = defineOperation('double', ({ input }) => input.value * 2, z.object({ value: z.number() }));
+
+      expectTypeOf(doubleOp.execute).returns.resolves.toEqualTypeOf<number>();
+      expect(await doubleOp.execute({ value: 21 })).toBe(42);
+    });
+
+    it('should validate input and reference the operation in errors', async () => {
+      const greetOp = defineOperation('greet', async ({ input }) => input.name, z.object({ name: z.string() }));
+
+      const error = await greetOp.execute({ name: 1 } as any).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.operation.name).toBe('greet');
+    });
+  });
+
+  describe('defineOperation<TContext>()', () => {
+    interface DbContext {
+      db: { users: Map<string, string> };
+    }
+
+    it('should require the declared context on execute', async () => {
+      const createUserOp = defineOperation<DbContext>()(
+        'createUser',
+        async ({ input, ctx }) => {
+          ctx.db.users.set(input.email, input.name);
+          return ctx.db.users.size;
+        },
+        z.object({ name: z.string(), email: z.string().email() }),
+      );
+
+      const db = { users: new Map<string, string>() };
+
+      expect(createUserOp.name).toBe('createUser');
+      expect(await createUserOp.execute({ name: 'Ada', email: 'ada@example.com' }, { ctx: { db } })).toBe(1);
+      expect(db.users.get('ada@example.com')).toBe('Ada');
+      expectTypeOf(createUserOp.execute).parameter(1).toEqualTypeOf<{ ctx: DbContext } & ExecuteOptions>();
+    });
+
+    it('should name the operation in context errors', async () => {
+      const countOp = defineOperation<DbContext>()('countUsers', async ({ ctx }) => ctx.db.users.size, v.object({}));
+
+      // @ts-expect-error the context is required
+      const error = await countOp.execute({}).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ContextResolutionError);
+      expect(error.message).toContain('"countUsers"');
+    });
+  });
+
+  describe('operationWithContextFactory()', () => {
+    it('should bind the context for every defined operation', async () => {
+      const define = operationWithContextFactory({ ctx: { prefix: 'Hi' } });
+
+      const greetOp = define(
+        'greet',
+        ({ input, ctx }) => `${ctx.prefix} ${input.name}`,
+        z.object({ name: z.string() }),
+      );
+      const shoutOp = define(
+        'shout',
+        ({ input, ctx }) => `${ctx.prefix.toUpperCase()} ${input.name.toUpperCase()}`,
+        z.object({ name: z.string() }),
+      );
+
+      expect(await greetOp.execute({ name: 'Ada' })).toBe('Hi Ada');
+      expect(await shoutOp.execute({ name: 'Ada' })).toBe('HI ADA');
+      expect(await greetOp.execute({ name: 'Ada' }, { ctx: { prefix: 'Hey' } })).toBe('Hey Ada');
+    });
+
+    it('should accept a context factory', async () => {
+      let calls = 0;
+      const define = operationWithContextFactory({ ctx: async () => ({ call: ++calls }) });
+      const countOp = define('count', ({ ctx }) => ctx.call, v.object({}));
+
+      expect(await countOp.execute({})).toBe(1);
+      expect(await countOp.execute({})).toBe(2);
+    });
+  });
+
+  it('should surface names given through builder metadata', () => {
+    const named = Opa.create()
+      .operation.input(v.object({}))
+      .meta({ name: 'ping' })
+      .handler(async () => 'pong');
+    const anonymous = Opa.create()
+      .operation.input(v.object({}))
+      .handler(async () => 'pong');
+
+    expect(named.name).toBe('ping');
+    expect(anonymous.name).toBeUndefined();
+  });
+});
@@ -0,0 +1,15 @@
+import type { Clock } from '../../src/index.js';
+
+// Clock moved forward by hand. `sleep` records the delay and moves the clock past it without waiting
+export function manualClock(): Clock & { time: number; delays: number[] } {
+  const clock = {
+    time: 0,
+    delays: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.delays.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock;
+}
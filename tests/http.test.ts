@@ -0,0 +1,194 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Opa, ValidationError, createFetchHandler, defineOperation, pipe, type HttpErrorBody } from '../src/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+
+const greet = Opa.create()
+  .operation.input(z.object({ name: z.string() }))
+  .handler(async ({ input }) => ({ message: `Hello ${input.name}` }));
+
+const whoAmI = defineOperation<{ user: string }>()('whoAmI', async ({ ctx }) => ctx.user, v.object({}));
+
+const fail = Opa.create()
+  .operation.input(v.object({}))
+  .handler(async () => {
+    throw new Error('database is down');
+  });
+
+// Handler bug: calls another operation with input it rejects
+const callsGreetBadly = Opa.create()
+  .operation.input(v.object({}))
+  .handler(async () => greet.execute({ name: 42 } as any));
+
+const post = (url: string, body: unknown) =>
+  new Request(url, { method: 'POST', body: JSON.stringify(body), headers: { 'content-type': 'application/json' } });
+
+const readError = async (response: Response) => ((await response.json()) as HttpErrorBody).error;
+
+describe('createFetchHandler()', () => {
+  const handler = createFetchHandler({ greet, users: { whoAmI }, fail }, { ctx: { user: 'ada' } });
+
+  it('should execute operations from a JSON body', async () => {
+    const response = await handler(post('http://localhost/greet', { name: 'Ada' }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({ message: 'Hello Ada' });
+  });
+
+  it('should read GET input from the query string', async () => {
+    const plain = await handler(new Request('http://localhost/greet?name=Ada'));
+    const encoded = await handler(
+      new Request(`http://localhost/greet?input=${encodeURIComponent(JSON.stringify({ name: 'Bob' }))}`),
+    );
+
+    expect(await plain.json()).toEqual({ message: 'Hello Ada' });
+    expect(await encoded.json()).toEqual({ message: 'Hello Bob' });
+  });
+
+  it('should map nested paths to namespaced operations and pass the context', async () => {
+    const response = await handler(post('http://localhost/users/whoAmI', {}));
+
+    expect(await response.json()).toBe('ada');
+  });
+
+  it('should build the context from the request', async () => {
+    const perRequest = createFetchHandler(
+      { whoAmI },
+      { ctx: (request: Request) => ({ user: request.headers.get('x-user') }) },
+    );
+    const response = await perRequest(new Request('http://localhost/whoAmI', { headers: { 'x-user': 'grace' } }));
+
+    expect(await response.json()).toBe('grace');
+  });
+
+  it('should respond 400 with issues for invalid input', async () => {
+    const response = await handler(post('http://localhost/greet', { name: 42 }));
+    const error = await readError(response);
+
+    expect(response.status).toBe(400);
+    expect(error.code).toBe('VALIDATION_ERROR');
+    expect(error.issues).toHaveLength(1);
+    expect(error.issues?.[0].path).toEqual(['name']);
+  });
+
+  it('should respond 400 when the input of a piped operation is invalid', async () => {
+    const shout = Opa.create()
+      .operation.input(z.object({ message: z.string() }))
+      .handler(async ({ input }) => input.message.toUpperCase());
+    const response = await createFetchHandler({ greetLoudly: pipe(greet, shout) })(
+      post('http://localhost/greetLoudly', { name: 42 }),
+    );
+
+    expect(response.status).toBe(400);
+    expect((await readError(response)).code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should respond 500 when a handler calls another operation with invalid input', async () => {
+    const onError = vi.fn();
+    const response = await createFetchHandler(
+      { callsGreetBadly },
+      { onError },
+    )(post('http://localhost/callsGreetBadly', {}));
+
+    expect(response.status).toBe(500);
+    expect(await readError(response)).toEqual({ code: 'INTERNAL_SERVER_ERROR', message: 'Internal server error' });
+    expect(onError).toHaveBeenCalledWith(expect.any(ValidationError), expect.any(Request));
+  });
+
+  it('should respond 400 for malformed JSON', async () => {
+    const response = await handler(new Request('http://localhost/greet', { method: 'POST', body: '{' }));
+
+    expect(response.status).toBe(400);
+    expect((await readError(response)).code).toBe('PARSE_ERROR');
+  });
+
+  it('should respond 404 for unknown operations', async () => {
+    const unknown = await handler(post('http://localhost/missing', {}));
+    const namespace = await handler(post('http://localhost/users', {}));
+
+    expect(unknown.status).toBe(404);
+    expect((await readError(unknown)).code).toBe('NOT_FOUND');
+    expect(namespace.status).toBe(404);
+  });
+
+  it('should respond 404 for malformed path escapes', async () => {
+    const response = await handler(post('http://localhost/%E0%A4%A', {}));
+
+    expect(response.status).toBe(404);
+    expect((await readError(response)).code).toBe('NOT_FOUND');
+  });
+
+  it('should respond 405 for unsupported methods', async () => {
+    const response = await handler(new Request('http://localhost/greet', { method: 'DELETE' }));
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('allow')).toBe('GET, POST');
+  });
+
+  it('should respond 500 without leaking handler errors', async () => {
+    const onError = vi.fn();
+    const response = await createFetchHandler({ fail }, { onError })(post('http://localhost/fail', {}));
+    expect(response.status).toBe(500);
+    expect(await readError(response)).toEqual({ code: 'INTERNAL_SERVER_ERROR', message: 'Internal server error' });
+    expect(onError.mock.calls[0][0].message).toBe('database is down');
+  });
+
+  it('should respond 429 with Retry-After when rate limited', async () => {
+    const search = Opa.create()
+      .operation.input(v.object({}))
+      .rateLimit({ capacity: 1, refillPerSecond: 0.4 })
+      .handler(async () => 'found');
+    const onError = vi.fn();
+    const api = createFetchHandler({ search }, { onError });
+
+    expect((await api(post('http://localhost/search', {}))).status).toBe(200);
+    const response = await api(post('http://localhost/search', {}));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('3');
+    expect(await readError(response)).toEqual({ code: 'RATE_LIMITED', message: 'Too many requests' });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should respond 503 while the circuit is open or the concurrency limit is full', async () => {
+    const quote = Opa.create()
+      .operation.input(v.object({}))
+      .circuitBreaker({ failureThreshold: 1, windowMs: 1_000, halfOpenAfterMs: 30_000 })
+      .handler(async () => {
+        throw new Error('service down');
+      });
+    let release!: () => void;
+    const exportData = Opa.create()
+      .operation.input(v.object({}))
+      .concurrency({ max: 1, maxQueued: 0 })
+      .handler(() => new Promise<string>((resolve) => (release = () => resolve('done'))));
+    const api = createFetchHandler({ quote, exportData });
+
+    expect((await api(post('http://localhost/quote', {}))).status).toBe(500);
+    const open = await api(post('http://localhost/quote', {}));
+    expect(open.status).toBe(503);
+    expect(open.headers.get('retry-after')).toBe('30');
+    expect(await readError(open)).toEqual({ code: 'SERVICE_UNAVAILABLE', message: 'Service unavailable' });
+
+    const running = api(post('http://localhost/exportData', {}));
+    await vi.waitFor(() => expect(release).toBeDefined());
+    const full = await api(post('http://localhost/exportData', {}));
+    expect(full.status).toBe(503);
+    expect(full.headers.get('retry-after')).toBeNull();
+    expect(await readError(full)).toEqual({ code: 'SERVICE_UNAVAILABLE', message: 'Service unavailable' });
+
+    release();
+    expect((await running).status).toBe(200);
+  });
+
+  it('should serve a router under a base path', async () => {
+    const api = createFetchHandler(Opa.router({ greeting: { greet } }), { basePath: '/api/' });
+
+    const response = await api(post('http://localhost/api/greeting/greet', { name: 'Ada' }));
+    const outside = await api(post('http://localhost/greeting/greet', { name: 'Ada' }));
+
+    expect(await response.json()).toEqual({ message: 'Hello Ada' });
+    expect(outside.status).toBe(404);
+  });
+});
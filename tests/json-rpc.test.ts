@@ -0,0 +1,204 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Opa, ValidationError, defineOperation, handleJsonRpc, JsonRpcErrorCode } from '../src/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+import { manualClock } from './helpers/clock.js';
+
+const add = Opa.create()
+  .operation.input(z.object({ a: z.number(), b: z.number() }))
+  .handler(async ({ input }) => input.a + input.b);
+
+const log = defineOperation<{ lines: string[] }>()(
+  'log',
+  async ({ input, ctx }) => {
+    ctx.lines.push(input.line);
+  },
+  v.object({ line: v.string() }),
+);
+
+const fail = Opa.create()
+  .operation.input(v.object({}))
+  .handler(async () => {
+    throw new Error('database is down');
+  });
+
+// Handler bug: calls another operation with input it rejects
+const addBadly = Opa.create()
+  .operation.input(v.object({}))
+  .handler(async () => add.execute({ a: 1, b: 'two' } as any));
+
+const operations = { math: { add, addBadly }, log, fail };
+
+describe('handleJsonRpc()', () => {
+  it('should answer a single call', async () => {
+    const response = await handleJsonRpc(
+      { jsonrpc: '2.0', id: 1, method: 'math.add', params: { a: 1, b: 2 } },
+      operations,
+    );
+
+    expect(response).toEqual({ jsonrpc: '2.0', id: 1, result: 3 });
+  });
+
+  it('should parse raw JSON payloads', async () => {
+    const response = await handleJsonRpc(
+      '{"jsonrpc":"2.0","id":"a","method":"math.add","params":{"a":2,"b":2}}',
+      operations,
+    );
+
+    expect(response).toEqual({ jsonrpc: '2.0', id: 'a', result: 4 });
+    expect(await handleJsonRpc('{"jsonrpc"', operations)).toEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: JsonRpcErrorCode.ParseError, message: 'Parse error' },
+    });
+  });
+
+  it('should pass the context and answer null for void results', async () => {
+    const ctx = { lines: [] as string[] };
+    const response = await handleJsonRpc(
+      { jsonrpc: '2.0', id: 1, method: 'log', params: { line: 'hi' } },
+      operations,
+      ctx,
+    );
+
+    expect(response).toEqual({ jsonrpc: '2.0', id: 1, result: null });
+    expect(ctx.lines).toEqual(['hi']);
+  });
+
+  it('should map validation failures to invalid params with issues', async () => {
+    const response = await handleJsonRpc(
+      { jsonrpc: '2.0', id: 1, method: 'math.add', params: { a: 1, b: 'two' } },
+      operations,
+    );
+
+    expect(response).toMatchObject({ id: 1, error: { code: -32602, message: 'Invalid params' } });
+    expect((response as any).error.data.issues[0].path).toEqual(['b']);
+  });
+
+  it('should map invalid input passed to a nested operation to a server error', async () => {
+    const onError = vi.fn();
+    const response = await handleJsonRpc(
+      { jsonrpc: '2.0', id: 1, method: 'math.addBadly', params: {} },
+      operations,
+      undefined,
+      { onError },
+    );
+
+    expect(response).toEqual({ jsonrpc: '2.0', id: 1, error: { code: -32000, message: 'Server error' } });
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(ValidationError);
+  });
+
+  it('should report unknown methods and invalid requests', async () => {
+    expect(await handleJsonRpc({ jsonrpc: '2.0', id: 1, method: 'math.sub', params: {} }, operations)).toMatchObject({
+      id: 1,
+      error: { code: JsonRpcErrorCode.MethodNotFound },
+    });
+    expect(await handleJsonRpc({ jsonrpc: '1.0', id: 1, method: 'math.add' }, operations)).toMatchObject({
+      id: null,
+      error: { code: JsonRpcErrorCode.InvalidRequest },
+    });
+    expect(await handleJsonRpc({ jsonrpc: '2.0', id: 1, method: 'math.add', params: 3 }, operations)).toMatchObject({
+      error: { code: JsonRpcErrorCode.InvalidRequest },
+    });
+  });
+
+  it('should map handler errors to server errors without leaking them', async () => {
+    const onError = vi.fn();
+    const response = await handleJsonRpc({ jsonrpc: '2.0', id: 7, method: 'fail', params: {} }, operations, undefined, {
+      onError,
+    });
+
+    expect(response).toEqual({ jsonrpc: '2.0', id: 7, error: { code: -32000, message: 'Server error' } });
+    expect(onError.mock.calls[0][0].message).toBe('database is down');
+  });
+
+  it('should map executions turned away by a policy to rate limited and unavailable errors', async () => {
+    const search = Opa.create()
+      .operation.input(v.object({}))
+      .rateLimit({ capacity: 1, refillPerSecond: 0.5, clock: manualClock() })
+      .handler(async () => 'found');
+    const quote = Opa.create()
+      .operation.input(v.object({}))
+      .circuitBreaker({ failureThreshold: 1, windowMs: 1_000, halfOpenAfterMs: 30_000 })
+      .handler(async () => {
+        throw new Error('service down');
+      });
+    const onError = vi.fn();
+    const call = (id: number, method: string) =>
+      handleJsonRpc({ jsonrpc: '2.0', id, method, params: {} }, { search, quote }, undefined, { onError });
+
+    await call(1, 'search');
+    await call(2, 'quote');
+    onError.mockClear();
+
+    expect(await call(3, 'search')).toMatchObject({
+      id: 3,
+      error: { code: JsonRpcErrorCode.RateLimited, message: 'Rate limited', data: { retryAfterMs: 2_000 } },
+    });
+    expect(await call(4, 'quote')).toMatchObject({
+      id: 4,
+      error: { code: JsonRpcErrorCode.Unavailable, message: 'Unavailable' },
+    });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  describe('notifications', () => {
+    it('should execute without responding', async () => {
+      const ctx = { lines: [] as string[] };
+      const response = await handleJsonRpc(
+        { jsonrpc: '2.0', method: 'log', params: { line: 'quiet' } },
+        operations,
+        ctx,
+      );
+
+      expect(response).toBeUndefined();
+      expect(ctx.lines).toEqual(['quiet']);
+    });
+
+    it('should not respond to failing notifications', async () => {
+      expect(await handleJsonRpc({ jsonrpc: '2.0', method: 'math.add', params: {} }, operations)).toBeUndefined();
+    });
+  });
+
+  describe('batches', () => {
+    it('should answer every call in order and skip notifications', async () => {
+      const ctx = { lines: [] as string[] };
+      const response = await handleJsonRpc(
+        [
+          { jsonrpc: '2.0', id: 1, method: 'math.add', params: { a: 1, b: 1 } },
+          { jsonrpc: '2.0', method: 'log', params: { line: 'batched' } },
+          { jsonrpc: '2.0', id: 2, method: 'math.add', params: { a: 'x' } },
+          { foo: 'bar' },
+        ],
+        operations,
+        ctx,
+      );
+
+      expect(response).toEqual([
+        { jsonrpc: '2.0', id: 1, result: 2 },
+        expect.objectContaining({ id: 2, error: expect.objectContaining({ code: JsonRpcErrorCode.InvalidParams }) }),
+        { jsonrpc: '2.0', id: null, error: { code: JsonRpcErrorCode.InvalidRequest, message: 'Invalid Request' } },
+      ]);
+      expect(ctx.lines).toEqual(['batched']);
+    });
+
+    it('should respond with nothing to a batch of notifications', async () => {
+      const ctx = { lines: [] as string[] };
+      const response = await handleJsonRpc(
+        [
+          { jsonrpc: '2.0', method: 'log', params: { line: 'a' } },
+          { jsonrpc: '2.0', method: 'log', params: { line: 'b' } },
+        ],
+        operations,
+        ctx,
+      );
+
+      expect(response).toBeUndefined();
+      expect(ctx.lines).toEqual(['a', 'b']);
+    });
+
+    it('should reject an empty batch', async () => {
+      expect(await handleJsonRpc([], operations)).toMatchObject({ error: { code: JsonRpcErrorCode.InvalidRequest } });
+    });
+  });
+});
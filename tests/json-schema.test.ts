@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Opa,
+  JsonSchemaConversionError,
+  registerJsonSchemaAdapter,
+  toJsonSchema,
+  type StandardSchemaV1,
+} from '../src/index.js';
+import { type } from 'arktype';
+import * as v from 'valibot';
+import { z } from 'zod';
+
+const DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+const operationFor = (schema: StandardSchemaV1) =>
+  Opa.create()
+    .operation.input(schema)
+    .handler(async ({ input }) => input);
+
+describe('toJsonSchema()', () => {
+  it('should convert zod schemas', () => {
+    const operation = operationFor(z.object({ name: z.string().min(1), age: z.number().optional() }));
+
+    expect(toJsonSchema(operation)).toEqual({
+      input: {
+        $schema: DIALECT,
+        type: 'object',
+        properties: { name: { type: 'string', minLength: 1 }, age: { type: 'number' } },
+        required: ['name'],
+      },
+    });
+  });
+
+  it('should convert arktype schemas', () => {
+    const operation = operationFor(type({ name: 'string', 'age?': 'number' }));
+
+    expect(toJsonSchema(operation).input).toEqual({
+      $schema: DIALECT,
+      type: 'object',
+      properties: { name: { type: 'string' }, age: { type: 'number' } },
+      required: ['name'],
+    });
+  });
+
+  it('should convert valibot schemas', () => {
+    const operation = operationFor(
+      v.strictObject({
+        email: v.pipe(v.string(), v.email(), v.description('Login email')),
+        role: v.picklist(['admin', 'user']),
+        age: v.pipe(v.number(), v.integer(), v.minValue(18)),
+        nickname: v.nullable(v.string()),
+        tags: v.optional(v.pipe(v.array(v.string()), v.maxLength(5)), []),
+        point: v.tuple([v.number(), v.number()]),
+        kind: v.union([v.literal('a'), v.literal(1)]),
+        extra: v.record(v.string(), v.boolean()),
+      }),
+    );
+
+    expect(toJsonSchema(operation).input).toEqual({
+      $schema: DIALECT,
+      type: 'object',
+      properties: {
+        email: { type: 'string', format: 'email', description: 'Login email' },
+        role: { enum: ['admin', 'user'] },
+        age: { type: 'integer', minimum: 18 },
+        nickname: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5, default: [] },
+        point: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], items: false },
+        kind: { anyOf: [{ const: 'a' }, { const: 1 }] },
+        extra: { type: 'object', additionalProperties: { type: 'boolean' } },
+      },
+      required: ['email', 'role', 'age', 'nickname', 'point', 'kind', 'extra'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should convert the output schema when declared', () => {
+    const operation = Opa.create()
+      .operation.input(v.object({ id: v.string() }))
+      .output(z.object({ id: z.string(), status: z.string().default('active') }))
+      .handler(async ({ input }) => ({ id: input.id }));
+
+    const { input, output } = toJsonSchema(operation);
+
+    expect(input.required).toEqual(['id']);
+    // Defaults make the key optional for the handler but always present in the output
+    expect(output).toMatchObject({ type: 'object', required: ['id', 'status'] });
+  });
+
+  it('should wrap vendor conversion failures', () => {
+    // Only the input side of a transform can be described
+    const operation = Opa.create()
+      .operation.input(v.object({}))
+      .output(z.object({ at: z.string().transform((value) => new Date(value)) }))
+      .handler(async () => ({ at: '2024-01-01' }));
+    const error = (() => {
+      try {
+        toJsonSchema(operation);
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(JsonSchemaConversionError);
+    expect(error).toMatchObject({
+      vendor: 'zod',
+      message: expect.stringContaining('Transforms cannot be represented'),
+    });
+  });
+
+  it('should throw a clear error for unknown vendors', () => {
+    const schema: StandardSchemaV1<{ id: string }> = {
+      '~standard': { version: 1, vendor: 'acme', validate: (value) => ({ value: value as { id: string } }) },
+    };
+
+    expect(() => toJsonSchema(operationFor(schema))).toThrow(JsonSchemaConversionError);
+    expect(() => toJsonSchema(operationFor(schema))).toThrow('No JSON Schema adapter registered for vendor "acme"');
+  });
+
+  it('should throw for valibot schemas without a JSON Schema equivalent', () => {
+    expect(() => toJsonSchema(operationFor(v.object({ at: v.date() })))).toThrow('Cannot convert valibot "date"');
+  });
+
+  it('should use registered adapters', () => {
+    registerJsonSchemaAdapter('custom', (_schema, io) => ({ type: 'string', description: io }));
+    const schema: StandardSchemaV1<string> = {
+      '~standard': { version: 1, vendor: 'custom', validate: (value) => ({ value: String(value) }) },
+    };
+
+    expect(toJsonSchema(operationFor(schema)).input).toEqual({
+      $schema: DIALECT,
+      type: 'string',
+      description: 'input',
+    });
+  });
+});
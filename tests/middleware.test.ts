@@ -0,0 +1,256 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { Opa, op, ValidationError, type Middleware } from '../src/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+
+describe('Middleware', () => {
+  describe('Operation-level middleware', () => {
+    it('should run middleware in declared order around the handler', async () => {
+      const calls: string[] = [];
+      const trace =
+        (name: string): Middleware =>
+        async ({ next }) => {
+          calls.push(`${name}:before`);
+          const result = await next();
+          calls.push(`${name}:after`);
+          return result;
+        };
+
+      const operation = op
+        .use(trace('outer'))
+        .use(trace('inner'))
+        .input(v.object({ name: v.string() }))
+        .handler(async ({ input }) => {
+          calls.push('handler');
+          return `Hello ${input.name}`;
+        });
+
+      const result = await operation.execute({ name: 'Ada' });
+
+      expect(result).toBe('Hello Ada');
+      expect(calls).toEqual(['outer:before', 'inner:before', 'handler', 'inner:after', 'outer:after']);
+    });
+
+    it('should let middleware short-circuit the handler', async () => {
+      const handler = vi.fn(async () => 'from handler');
+      const operation = op
+        .use(async () => 'from middleware')
+        .input(v.object({ id: v.number() }))
+        .handler(handler);
+
+      expect(await operation.execute({ id: 1 })).toBe('from middleware');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should let middleware transform the result of next()', async () => {
+      const operation = op
+        .use(async ({ next }) => {
+          const result = (await next()) as number;
+          return result * 10;
+        })
+        .input(z.object({ value: z.number() }))
+        .handler(async ({ input }) => input.value + 1);
+
+      expect(await operation.execute({ value: 1 })).toBe(20);
+    });
+
+    it('should pass validated input, context and meta', async () => {
+      const seen = vi.fn();
+      const operation = Opa.context({ tenant: 'acme' })
+        .create()
+        .operation.use(async ({ input, ctx, meta, next }) => {
+          seen({ input, tenant: ctx.tenant, meta });
+          return next();
+        })
+        .input(z.object({ count: z.coerce.number() }))
+        .meta({ audit: true })
+        .handler(async ({ input }) => input.count);
+
+      await operation.execute({ count: '3' } as any);
+
+      expect(seen).toHaveBeenCalledWith({ input: { count: 3 }, tenant: 'acme', meta: { audit: true } });
+      expect(operation.meta).toEqual({ audit: true });
+    });
+
+    it('should not run middleware when input validation fails', async () => {
+      const middleware = vi.fn(async ({ next }) => next());
+      const operation = op
+        .use(middleware)
+        .input(v.object({ id: v.number() }))
+        .handler(async ({ input }) => input.id);
+
+      await expect(operation.execute({ id: 'x' } as any)).rejects.toBeInstanceOf(ValidationError);
+      expect(middleware).not.toHaveBeenCalled();
+    });
+
+    it('should propagate errors thrown by middleware', async () => {
+      const operation = op
+        .use(async () => {
+          throw new Error('Unauthorized');
+        })
+        .input(v.object({ id: v.number() }))
+        .handler(async ({ input }) => input.id);
+
+      await expect(operation.execute({ id: 1 })).rejects.toThrow('Unauthorized');
+    });
+  });
+
+  describe('Builder-level middleware', () => {
+    it('should apply to every operation built from the builder', async () => {
+      const log: string[] = [];
+      const builder = Opa.context({ service: 'users' })
+        .create()
+        .use(async ({ ctx, meta, next }) => {
+          log.push(`${ctx.service}:${meta.name}`);
+          return next();
+        });
+
+      const create = builder.operation
+        .input(v.object({ name: v.string() }))
+        .meta({ name: 'create' })
+        .handler(async ({ input }) => input.name);
+      const remove = builder.operation
+        .input(v.object({ id: v.number() }))
+        .meta({ name: 'remove' })
+        .handler(async ({ input }) => input.id);
+
+      await create.execute({ name: 'Ada' });
+      await remove.execute({ id: 1 });
+
+      expect(log).toEqual(['users:create', 'users:remove']);
+    });
+
+    it('should run builder middleware before operation middleware', async () => {
+      const calls: string[] = [];
+      const operation = Opa.create()
+        .use(async ({ next }) => {
+          calls.push('builder');
+          return next();
+        })
+        .operation.use(async ({ next }) => {
+          calls.push('operation');
+          return next();
+        })
+        .input(v.object({ id: v.number() }))
+        .handler(async ({ input }) => input.id);
+
+      await operation.execute({ id: 1 });
+
+      expect(calls).toEqual(['builder', 'operation']);
+    });
+
+    it('should not leak middleware into sibling builders', async () => {
+      const middleware = vi.fn(async ({ next }) => next());
+      const base = Opa.create();
+      base.use(middleware);
+
+      const operation = base.operation.input(v.object({ id: v.number() })).handler(async ({ input }) => input.id);
+      await operation.execute({ id: 1 });
+
+      expect(middleware).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Context-extending middleware', () => {
+    const sessions: Record<string, { id: number; name: string }> = { abc: { id: 1, name: 'Ada' } };
+
+    it('should add fields to the handler context', async () => {
+      const operation = Opa.context({ token: 'abc' })
+        .create()
+        .use(async ({ ctx, next }) => next({ ctx: { user: sessions[ctx.token] } }))
+        .operation.input(v.object({ greeting: v.string() }))
+        .handler(async ({ input, ctx }) => {
+          expectTypeOf(ctx).toEqualTypeOf<{ token: string; user: { id: number; name: string } }>();
+          return `${input.greeting} ${ctx.user.name}`;
+        });
+
+      expect(await operation.execute({ greeting: 'Hi' })).toBe('Hi Ada');
+    });
+
+    it('should merge stacked extensions in order', async () => {
+      const operation = Opa.context({ requestId: 'req-1' })
+        .create()
+        .operation.use(async ({ next }) => next({ ctx: { user: { id: 1 } } }))
+        .use(async ({ ctx, next }) => {
+          expectTypeOf(ctx.user).toEqualTypeOf<{ id: number }>();
+          return next({ ctx: { permissions: ctx.user.id === 1 ? ['admin'] : [] } });
+        })
+        .use(async ({ next }) => next({ ctx: { requestId: 42 } }))
+        .input(z.object({ action: z.string() }))
+        .handler(async ({ input, ctx }) => {
+          expectTypeOf(ctx).toEqualTypeOf<{ requestId: number; user: { id: number }; permissions: string[] }>();
+          return { action: input.action, ...ctx };
+        });
+
+      expect(await operation.execute({ action: 'save' })).toEqual({
+        action: 'save',
+        requestId: 42,
+        user: { id: 1 },
+        permissions: ['admin'],
+      });
+    });
+
+    it('should provide a context when the base context was undefined', async () => {
+      const operation = op
+        .use(async ({ next }) => next({ ctx: { startedAt: 100 } }))
+        .input(v.object({ id: v.number() }))
+        .handler(async ({ input, ctx }) => {
+          expectTypeOf(ctx).toEqualTypeOf<{ startedAt: number }>();
+          return ctx.startedAt + input.id;
+        });
+
+      expect(await operation.execute({ id: 1 })).toBe(101);
+    });
+
+    it('should keep the methods of a class instance context', async () => {
+      class Db {
+        constructor(readonly url: string) {}
+        describe() {
+          return `db at ${this.url}`;
+        }
+      }
+
+      const operation = Opa.context(new Db('postgres://local'))
+        .create()
+        .use(async ({ next }) => next({ ctx: { user: sessions.abc } }))
+        .operation.input(v.object({}))
+        .handler(async ({ ctx }) => `${ctx.user.name} via ${ctx.describe()}`);
+
+      expect(await operation.execute({})).toBe('Ada via db at postgres://local');
+    });
+
+    it('should keep the context unchanged for plain middleware', async () => {
+      const operation = op
+        .use(async ({ next }) => next())
+        .input(v.object({ id: v.number() }))
+        .handler(async ({ input }) => input.id);
+
+      expectTypeOf(operation.handler).parameter(0).toEqualTypeOf<{ input: { id: number }; ctx: undefined }>();
+      expect(await operation.execute({ id: 1 })).toBe(1);
+    });
+
+    it('should not extend the context of short-circuited branches', async () => {
+      const operation = Opa.context({ token: '' })
+        .create()
+        .operation.use(async ({ ctx, next }) => {
+          if (!ctx.token) return 'anonymous';
+          return next({ ctx: { user: sessions[ctx.token] } });
+        })
+        .input(v.object({}))
+        .handler(async ({ ctx }) => ctx.user.name);
+
+      expect(await operation.execute({})).toBe('anonymous');
+    });
+  });
+
+  it('should bypass middleware on direct handler calls', async () => {
+    const middleware = vi.fn(async ({ next }) => next());
+    const operation = op
+      .use(middleware)
+      .input(v.object({ id: v.number() }))
+      .handler(async ({ input }) => input.id);
+
+    expect(await operation.handler({ input: { id: 7 } } as any)).toBe(7);
+    expect(middleware).not.toHaveBeenCalled();
+  });
+});
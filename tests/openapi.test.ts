@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { Opa, createFetchHandler, defineOperation, generateOpenApi } from '../src/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+
+const createUser = Opa.create()
+  .operation.input(z.object({ name: z.string(), email: z.string().email() }))
+  .output(z.object({ id: z.number(), name: z.string() }))
+  .meta({ name: 'createUser', description: 'Create a user', tags: ['users'] })
+  .handler(async ({ input }) => ({ id: 1, name: input.name }));
+
+const legacyList = Opa.create()
+  .operation.input(v.object({ page: v.optional(v.number()) }))
+  .meta({ tags: ['users'], deprecated: true })
+  .handler(async () => []);
+
+const ping = defineOperation('ping', async () => 'pong', v.object({}));
+
+const operations = { users: { create: createUser, legacyList }, ping };
+
+describe('generateOpenApi()', () => {
+  const document = generateOpenApi(operations, { title: 'Users API', version: '1.2.0', basePath: '/api' });
+
+  it('should describe the document', () => {
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info).toEqual({ title: 'Users API', version: '1.2.0' });
+    expect(Object.keys(document.paths)).toEqual(['/api/users/create', '/api/users/legacyList', '/api/ping']);
+  });
+
+  it('should describe each operation as a POST with its input and output schemas', () => {
+    const { post } = document.paths['/api/users/create'];
+
+    expect(post).toMatchObject({
+      operationId: 'createUser',
+      description: 'Create a user',
+      tags: ['users'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { email: { type: 'string', format: 'email' } } },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          content: {
+            'application/json': { schema: { type: 'object', required: ['id', 'name'] } },
+          },
+        },
+        '400': { $ref: '#/components/responses/BadRequest' },
+        '404': { $ref: '#/components/responses/NotFound' },
+        '429': { $ref: '#/components/responses/TooManyRequests' },
+        '500': { $ref: '#/components/responses/InternalServerError' },
+        '503': { $ref: '#/components/responses/ServiceUnavailable' },
+      },
+    });
+    expect(post.requestBody.content['application/json'].schema).not.toHaveProperty('$schema');
+    expect(post).not.toHaveProperty('deprecated');
+  });
+
+  it('should fall back to the path as operationId and carry deprecation', () => {
+    expect(document.paths['/api/users/legacyList'].post).toMatchObject({
+      operationId: 'users.legacyList',
+      tags: ['users'],
+      deprecated: true,
+    });
+    expect(document.paths['/api/ping'].post.operationId).toBe('ping');
+  });
+
+  it('should describe the validation error body sent by the HTTP handler', async () => {
+    const handler = createFetchHandler(operations, { basePath: '/api' });
+    const response = await handler(
+      new Request('http://localhost/api/users/create', { method: 'POST', body: JSON.stringify({ name: 1 }) }),
+    );
+    const body = (await response.json()) as any;
+    const schema = document.components.schemas.ValidationError as any;
+
+    expect(response.status).toBe(400);
+    expect(Object.keys(body)).toEqual(schema.required);
+    expect(Object.keys(body.error).sort()).toEqual(Object.keys(schema.properties.error.properties).sort());
+    expect(body.error.code).toBe(schema.properties.error.properties.code.const);
+    expect(Object.keys(body.error.issues[0])).toEqual(
+      expect.arrayContaining(document.components.schemas.Issue.required as string[]),
+    );
+  });
+
+  it('should describe the parse and not found error bodies sent by the HTTP handler', async () => {
+    const handler = createFetchHandler(operations, { basePath: '/api' });
+    const malformed = await handler(new Request('http://localhost/api/users/create', { method: 'POST', body: '{' }));
+    const missing = await handler(new Request('http://localhost/api/users/delete', { method: 'POST', body: '{}' }));
+    const badRequest = document.components.responses.BadRequest.content['application/json'].schema as any;
+
+    expect(malformed.status).toBe(400);
+    expect(badRequest.oneOf).toContainEqual({ $ref: '#/components/schemas/ParseError' });
+    for (const [response, name] of [
+      [malformed, 'ParseError'],
+      [missing, 'NotFoundError'],
+    ] as const) {
+      const body = (await response.json()) as any;
+      const schema = document.components.schemas[name] as any;
+
+      expect(Object.keys(body.error).sort()).toEqual(Object.keys(schema.properties.error.properties).sort());
+      expect(body.error.code).toBe(schema.properties.error.properties.code.const);
+    }
+    expect(missing.status).toBe(404);
+  });
+
+  it('should describe the rate limited and unavailable responses sent by the HTTP handler', async () => {
+    const search = Opa.create()
+      .operation.input(v.object({}))
+      .rateLimit({ capacity: 1, refillPerSecond: 1 })
+      .handler(async () => 'found');
+    const exportData = Opa.create()
+      .operation.input(v.object({}))
+      .concurrency({ max: 1, maxQueued: 0 })
+      .handler(() => new Promise<string>(() => {}));
+    const handler = createFetchHandler({ search, exportData });
+    const post = (path: string) => handler(new Request(`http://localhost/${path}`, { method: 'POST', body: '{}' }));
+
+    await post('search');
+    void post('exportData');
+    const limited = await post('search');
+    const unavailable = await post('exportData');
+
+    const { TooManyRequests, ServiceUnavailable } = document.components.responses;
+    expect(limited.status).toBe(429);
+    expect(TooManyRequests.headers?.['Retry-After']).toMatchObject({ required: true });
+    expect(limited.headers.get('retry-after')).toBe('1');
+    expect(unavailable.status).toBe(503);
+    expect(ServiceUnavailable.headers?.['Retry-After']).toMatchObject({ required: false });
+    for (const [response, name] of [
+      [limited, 'RateLimitedError'],
+      [unavailable, 'UnavailableError'],
+    ] as const) {
+      const body = (await response.json()) as any;
+      const schema = document.components.schemas[name] as any;
+
+      expect(Object.keys(body.error).sort()).toEqual(Object.keys(schema.properties.error.properties).sort());
+      expect(body.error.code).toBe(schema.properties.error.properties.code.const);
+    }
+  });
+
+  it('should reject operations sharing a name', () => {
+    expect(() => generateOpenApi({ a: ping, b: { ping } }, { title: 'API', version: '1' })).toThrow(
+      'Operations "a" and "b.ping" share the name "ping"',
+    );
+  });
+});
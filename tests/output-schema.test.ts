@@ -0,0 +1,74 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { Opa, op, OutputValidationError, ValidationError, isOutputValidationError } from '../src/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+import { type } from 'arktype';
+
+describe('Output Schemas', () => {
+  describe('.output() before .handler()', () => {
+    it('should validate and transform handler output', async () => {
+      const outputSchema = z.object({ id: z.string(), createdAt: z.string().transform((value) => new Date(value)) });
+      const operation = op
+        .input(z.object({ name: z.string() }))
+        .output(outputSchema)
+        .handler(async ({ input }) => ({ id: input.name, createdAt: '2024-01-01T00:00:00.000Z' }));
+
+      const result = await operation.execute({ name: 'user-1' });
+
+      expect(result.id).toBe('user-1');
+      expect(result.createdAt).toBeInstanceOf(Date);
+      expectTypeOf(result).toEqualTypeOf<{ id: string; createdAt: Date }>();
+      expect(operation.outputSchema).toBe(outputSchema);
+      expectTypeOf(operation.outputSchema).toEqualTypeOf<typeof outputSchema>();
+    });
+
+    it('should reject output that breaks the contract', async () => {
+      const operation = Opa.context({ source: 'db' })
+        .create()
+        .operation.input(v.object({ id: v.number() }))
+        .output(v.object({ id: v.number(), email: v.pipe(v.string(), v.email()) }))
+        .handler(async ({ input, ctx }) => ({ id: input.id, email: ctx.source }));
+
+      const error = await operation.execute({ id: 1 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(OutputValidationError);
+      expect(error).not.toBeInstanceOf(ValidationError);
+      expect(isOutputValidationError(error)).toBe(true);
+      expect(error.paths).toEqual(['email']);
+      expect(error.operation).toBe(operation);
+    });
+
+    it('should still report input failures as ValidationError', async () => {
+      const operation = op
+        .input(type({ id: 'number' }))
+        .output(type({ id: 'number' }))
+        .handler(async ({ input }) => input);
+
+      await expect(operation.execute({ id: 'x' } as any)).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe('.output() after .handler()', () => {
+    it('should return a new operation validating the output', async () => {
+      const untyped = op.input(z.object({ value: z.number() })).handler(async ({ input }): Promise<unknown> => {
+        return { doubled: input.value * 2 };
+      });
+      const typed = untyped.output(z.object({ doubled: z.number() }));
+
+      expect(untyped.outputSchema).toBeUndefined();
+      expect(await typed.execute({ value: 2 })).toEqual({ doubled: 4 });
+      expectTypeOf(typed.execute).returns.resolves.toEqualTypeOf<{ doubled: number }>();
+
+      const strict = untyped.output(z.object({ doubled: z.string() }));
+      await expect(strict.execute({ value: 2 })).rejects.toBeInstanceOf(OutputValidationError);
+    });
+  });
+
+  it('should leave operations without an output schema untouched', async () => {
+    const operation = op.input(v.object({ name: v.string() })).handler(async ({ input }) => ({ name: input.name }));
+
+    expect(operation.outputSchema).toBeUndefined();
+    expect(await operation.execute({ name: 'Ada' })).toEqual({ name: 'Ada' });
+    expectTypeOf(operation.outputSchema).toEqualTypeOf<undefined>();
+  });
+});
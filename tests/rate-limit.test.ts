@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Opa, RateLimitError, createMemoryRateLimitStore, isRateLimitError } from '../src/index.js';
+import type { RateLimitStore } from '../src/index.js';
+import { z } from 'zod';
+import { manualClock } from './helpers/clock.js';
+
+describe('rateLimit()', () => {
+  it('should allow a burst of `capacity` executions, then reject with the time until the next token', async () => {
+    const clock = manualClock();
+    const operation = Opa.create()
+      .operation.input(z.string())
+      .meta({ name: 'search' })
+      .rateLimit({ capacity: 2, refillPerSecond: 4, clock })
+      .handler(async ({ input }) => input);
+
+    expect(await operation.execute('a')).toBe('a');
+    expect(await operation.execute('b')).toBe('b');
+    const error = await operation.execute('c').catch((error) => error);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(isRateLimitError(error)).toBe(true);
+    expect(error).toMatchObject({ retryAfterMs: 250, key: undefined, operation });
+    expect(error.message).toBe('Operation "search" is rate limited; retry in 250ms');
+
+    const result = await operation.safeExecute('d');
+    expect(!result.ok && result.error.kind).toBe('rejected');
+  });
+
+  it('should refill tokens over time', async () => {
+    const clock = manualClock();
+    const operation = Opa.create()
+      .operation.input(z.string())
+      .rateLimit({ capacity: 1, refillPerSecond: 2, clock })
+      .handler(async ({ input }) => input);
+
+    await operation.execute('a');
+    clock.time = 300;
+    await expect(operation.execute('b')).rejects.toMatchObject({ retryAfterMs: 200 });
+
+    clock.time = 500;
+    expect(await operation.execute('c')).toBe('c');
+  });
+
+  it('should not call the handler when rejected', async () => {
+    const handler = vi.fn(async ({ input }: { input: string }) => input);
+    const operation = Opa.create()
+      .operation.input(z.string())
+      .rateLimit({ capacity: 1, refillPerSecond: 1, clock: manualClock() })
+      .handler(handler);
+
+    await operation.execute('a');
+    await operation.execute('b').catch(() => {});
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep a bucket per key from the input or context', async () => {
+    const clock = manualClock();
+    const operation = Opa.context<{ tenantId: string }>()
+      .create()
+      .operation.input(z.string())
+      .rateLimit({ key: (_input, ctx) => ctx.tenantId, capacity: 1, refillPerSecond: 1, clock })
+      .handler(async ({ input }) => input);
+
+    await operation.execute('a', { ctx: { tenantId: 'acme' } });
+    expect(await operation.execute('b', { ctx: { tenantId: 'globex' } })).toBe('b');
+    await expect(operation.execute('c', { ctx: { tenantId: 'acme' } })).rejects.toMatchObject({ key: 'acme' });
+  });
+
+  it('should share buckets through a given store', async () => {
+    const clock = manualClock();
+    const store = createMemoryRateLimitStore();
+    const builder = Opa.create()
+      .operation.input(z.string())
+      .rateLimit({ capacity: 1, refillPerSecond: 1, store, clock });
+    const first = builder.handler(async ({ input }) => input);
+    const second = builder.handler(async ({ input }) => input);
+
+    await first.execute('a');
+    await expect(second.execute('b')).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('should take tokens from an external store', async () => {
+    const take = vi.fn<RateLimitStore['take']>(async () => ({ allowed: false, remaining: 0, retryAfterMs: 1000 }));
+    const operation = Opa.create()
+      .operation.input(z.object({ ip: z.string() }))
+      .rateLimit({ key: (input) => input.ip, capacity: 10, refillPerSecond: 5, store: { take }, clock: manualClock() })
+      .handler(async () => 'ok');
+
+    await expect(operation.execute({ ip: '10.0.0.1' })).rejects.toMatchObject({ retryAfterMs: 1000, key: '10.0.0.1' });
+    expect(take).toHaveBeenCalledWith('10.0.0.1', { capacity: 10, refillPerSecond: 5, now: 0 });
+  });
+
+  it('should reject invalid limits', () => {
+    const builder = Opa.create().operation.input(z.string());
+
+    expect(() => builder.rateLimit({ capacity: 0, refillPerSecond: 1 })).toThrow(RangeError);
+    expect(() => builder.rateLimit({ capacity: 1, refillPerSecond: 0 })).toThrow(RangeError);
+  });
+});
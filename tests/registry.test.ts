@@ -0,0 +1,131 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { createRegistry, defineOperation, operationWithContextFactory, ValidationError } from '../src/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+
+interface DbContext {
+  db: { users: string[] };
+}
+
+interface MailContext {
+  mailer: { sent: string[] };
+}
+
+const createUserOp = defineOperation<DbContext>()(
+  'createUser',
+  async ({ input, ctx }) => {
+    ctx.db.users.push(input.name);
+    return { id: ctx.db.users.length, name: input.name };
+  },
+  z.object({ name: z.string() }),
+);
+
+const listUsersOp = defineOperation<DbContext>()('listUsers', async ({ ctx }) => [...ctx.db.users], v.object({}));
+
+const sendWelcomeOp = defineOperation<MailContext>()(
+  'sendWelcome',
+  async ({ input, ctx }) => {
+    ctx.mailer.sent.push(input.to);
+    return true;
+  },
+  z.object({ to: z.string().email() }),
+);
+
+const slugifyOp = defineOperation('slugify', ({ input }) => input.title.toLowerCase(), z.object({ title: z.string() }));
+
+const registry = createRegistry(createUserOp, listUsersOp, sendWelcomeOp, slugifyOp);
+
+describe('Operation Registry', () => {
+  it('should collect operations by name', () => {
+    expect(Object.keys(registry.operations)).toEqual(['createUser', 'listUsers', 'sendWelcome', 'slugify']);
+    expect(registry.operations.createUser).toBe(createUserOp);
+    expectTypeOf(registry.operations.slugify).toEqualTypeOf<typeof slugifyOp>();
+  });
+
+  it('should reject duplicate and unnamed operations', () => {
+    expect(() => createRegistry(createUserOp, createUserOp)).toThrow('"createUser" is already registered');
+    expect(() => createRegistry({ ...slugifyOp, name: '' } as any)).toThrow('Only named operations');
+  });
+
+  describe('getOperation()', () => {
+    it('should bind a single operation', async () => {
+      const db = { users: [] as string[] };
+      const createUser = registry.getOperation({ ctx: { db }, selector: (ops) => ops.createUser });
+
+      expectTypeOf(createUser).toEqualTypeOf<(input: { name: string }) => Promise<{ id: number; name: string }>>();
+      expect(await createUser({ name: 'Jason' })).toEqual({ id: 1, name: 'Jason' });
+      expect(db.users).toEqual(['Jason']);
+    });
+
+    it('should bind a tuple of operations', async () => {
+      const db = { users: [] as string[] };
+      const [createUser, listUsers] = registry.getOperation({
+        ctx: { db },
+        selector: (ops) => [ops.createUser, ops.listUsers],
+      });
+
+      await createUser({ name: 'Ada' });
+      expect(await listUsers({})).toEqual(['Ada']);
+      expectTypeOf(listUsers).returns.resolves.toEqualTypeOf<string[]>();
+    });
+
+    it('should bind an object of operations', async () => {
+      const ctx = { db: { users: [] as string[] }, mailer: { sent: [] as string[] } };
+      const { createUser, sendWelcome } = registry.getOperation({
+        ctx,
+        selector: (ops) => ({ createUser: ops.createUser, sendWelcome: ops.sendWelcome }),
+      });
+
+      await createUser({ name: 'Ada' });
+      await sendWelcome({ to: 'ada@example.com' });
+
+      expect(ctx.db.users).toEqual(['Ada']);
+      expect(ctx.mailer.sent).toEqual(['ada@example.com']);
+    });
+
+    it('should validate input before executing', async () => {
+      const createUser = registry.getOperation({ ctx: { db: { users: [] } }, selector: (ops) => ops.createUser });
+
+      await expect(createUser({ name: 42 } as any)).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should not require a context for context-free operations', async () => {
+      const slugify = registry.getOperation({ selector: (ops) => ops.slugify });
+
+      expect(await slugify({ title: 'Hello' })).toBe('hello');
+    });
+
+    it('should keep the bound context of factory-defined operations', async () => {
+      const define = operationWithContextFactory({ ctx: { greeting: 'Hi' } });
+      const greetOp = define(
+        'greet',
+        ({ input, ctx }) => `${ctx.greeting} ${input.name}`,
+        v.object({ name: v.string() }),
+      );
+      const greet = createRegistry(greetOp).getOperation({
+        ctx: { greeting: 'Hello' },
+        selector: (ops) => ops.greet,
+      });
+
+      expect(await greet({ name: 'Ada' })).toBe('Hello Ada');
+    });
+
+    it('should reject contexts that miss a selected operation requirement at compile time', () => {
+      const db = { users: [] as string[] };
+
+      registry.getOperation({
+        // @ts-expect-error sendWelcome needs a mailer
+        ctx: { db },
+        selector: (ops) => [ops.createUser, ops.sendWelcome],
+      });
+
+      // @ts-expect-error createUser needs a context
+      registry.getOperation({ selector: (ops) => ops.createUser });
+
+      expect(() =>
+        // @ts-expect-error unknown operation
+        registry.getOperation({ ctx: { db }, selector: (ops) => ops.deleteUser }),
+      ).toThrow('Selector must return');
+    });
+  });
+});
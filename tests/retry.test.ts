@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Opa, ValidationError, OutputValidationError } from '../src/index.js';
+import type { RetryOptions } from '../src/index.js';
+import { z } from 'zod';
+import { manualClock } from './helpers/clock.js';
+
+// Fails the first `failures` calls, then resolves with the attempt that succeeded
+function flaky(failures: number) {
+  return vi.fn(async ({ attempt }: { attempt: number }) => {
+    if (attempt <= failures) throw new Error(`attempt ${attempt} failed`);
+    return attempt;
+  });
+}
+
+describe('retry()', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should re-run the handler until it succeeds', async () => {
+    const clock = manualClock();
+    const handler = flaky(2);
+    const operation = Opa.create()
+      .operation.input(z.object({ id: z.string() }))
+      .retry({ attempts: 3, clock })
+      .handler(handler);
+
+    expect(await operation.execute({ id: 'a' })).toBe(3);
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(handler.mock.calls.map(([args]) => args.attempt)).toEqual([1, 2, 3]);
+  });
+
+  it('should reject with the last failure once attempts run out', async () => {
+    const clock = manualClock();
+    const handler = flaky(5);
+    const operation = Opa.create().operation.input(z.string()).retry({ attempts: 3, clock }).handler(handler);
+
+    await expect(operation.execute('a')).rejects.toThrow('attempt 3 failed');
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should pass attempt 1 to handlers without retries', async () => {
+    const operation = Opa.create()
+      .operation.input(z.string())
+      .handler(async ({ attempt }) => attempt);
+
+    expect(await operation.execute('a')).toBe(1);
+  });
+
+  it('should never retry invalid input', async () => {
+    const clock = manualClock();
+    const handler = flaky(0);
+    const operation = Opa.create()
+      .operation.input(z.object({ id: z.string() }))
+      .retry({ attempts: 3, clock })
+      .handler(handler);
+
+    await expect(operation.execute({ id: 1 } as any)).rejects.toBeInstanceOf(ValidationError);
+    expect(handler).not.toHaveBeenCalled();
+    expect(clock.delays).toEqual([]);
+  });
+
+  it('should not retry invalid output', async () => {
+    const clock = manualClock();
+    const handler = vi.fn(async () => 'not a number' as any);
+    const operation = Opa.create()
+      .operation.input(z.string())
+      .output(z.number())
+      .retry({ attempts: 3, clock })
+      .handler(handler);
+
+    await expect(operation.execute('a')).rejects.toBeInstanceOf(OutputValidationError);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only retry failures accepted by retryIf', async () => {
+    const clock = manualClock();
+    const retryIf = vi.fn((error: unknown) => !(error instanceof TypeError));
+    const handler = vi.fn(async ({ attempt }: { attempt: number }) => {
+      throw attempt === 1 ? new Error('transient') : new TypeError('fatal');
+    });
+    const operation = Opa.create().operation.input(z.string()).retry({ attempts: 5, retryIf, clock }).handler(handler);
+
+    await expect(operation.execute('a')).rejects.toBeInstanceOf(TypeError);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(retryIf).toHaveBeenLastCalledWith(expect.any(TypeError), 2);
+  });
+
+  describe('backoff', () => {
+    const delaysFor = async (options: Partial<RetryOptions>) => {
+      const clock = manualClock();
+      const operation = Opa.create()
+        .operation.input(z.string())
+        .retry({ attempts: 5, clock, ...options })
+        .handler(flaky(10));
+      await operation.execute('a').catch(() => {});
+      return clock.delays;
+    };
+
+    it('should back off exponentially by default', async () => {
+      expect(await delaysFor({})).toEqual([100, 200, 400, 800]);
+      expect(await delaysFor({ delayMs: 10, maxDelayMs: 50 })).toEqual([10, 20, 40, 50]);
+    });
+
+    it('should back off linearly', async () => {
+      expect(await delaysFor({ backoff: 'linear', delayMs: 50 })).toEqual([50, 100, 150, 200]);
+    });
+
+    it('should use a custom backoff function', async () => {
+      const backoff = vi.fn((attempt: number) => attempt * 7);
+
+      expect(await delaysFor({ backoff })).toEqual([7, 14, 21, 28]);
+      expect(backoff).toHaveBeenCalledWith(1, expect.any(Error));
+    });
+
+    it('should randomize delays with jitter', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(await delaysFor({ jitter: true })).toEqual([50, 100, 200, 400]);
+      expect(await delaysFor({ jitter: 0.2 })).toEqual([90, 180, 360, 720]);
+    });
+  });
+
+  it('should reject invalid attempt counts', () => {
+    expect(() => Opa.create().operation.input(z.string()).retry({ attempts: 0 })).toThrow(RangeError);
+  });
+});
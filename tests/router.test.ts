@@ -0,0 +1,102 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  Opa,
+  defineOperation,
+  OperationNotFoundError,
+  ValidationError,
+  type RouterInput,
+  type RouterOutput,
+  type RouterPath,
+} from '../src/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+
+interface DbContext {
+  db: { users: string[] };
+}
+
+const createUser = defineOperation<DbContext>()(
+  'createUser',
+  async ({ input, ctx }) => {
+    ctx.db.users.push(input.name);
+    return { id: ctx.db.users.length };
+  },
+  z.object({ name: z.string() }),
+);
+
+const listUsers = defineOperation<DbContext>()('listUsers', async ({ ctx }) => [...ctx.db.users], v.object({}));
+
+const charge = Opa.create()
+  .operation.input(z.object({ amount: z.number().positive() }))
+  .handler(async ({ input }) => ({ charged: input.amount }));
+
+const ping = Opa.create()
+  .operation.input(v.object({}))
+  .handler(async () => 'pong' as const);
+
+const router = Opa.router({
+  users: { create: createUser, list: listUsers },
+  billing: { invoices: { charge } },
+  ping,
+});
+
+describe('Router', () => {
+  it('should list dotted paths for every operation', () => {
+    expect(router.paths).toEqual(['users.create', 'users.list', 'billing.invoices.charge', 'ping']);
+    expectTypeOf<RouterPath<typeof router>>().toEqualTypeOf<
+      'users.create' | 'users.list' | 'billing.invoices.charge' | 'ping'
+    >();
+  });
+
+  it('should resolve operations by path', () => {
+    expect(router.resolve('users.create')).toBe(createUser);
+    expect(router.resolve('billing.invoices.charge')).toBe(charge);
+    expect(router.resolve('ping')).toBe(ping);
+    expectTypeOf(router.resolve('users.create')).toEqualTypeOf<typeof createUser>();
+  });
+
+  it('should resolve unknown paths and namespaces to undefined', () => {
+    expect(router.resolve('users.delete')).toBeUndefined();
+    expect(router.resolve('users')).toBeUndefined();
+  });
+
+  it('should infer input and output types by path', () => {
+    expectTypeOf<RouterInput<typeof router, 'billing.invoices.charge'>>().toEqualTypeOf<{ amount: number }>();
+    expectTypeOf<RouterOutput<typeof router, 'users.create'>>().toEqualTypeOf<{ id: number }>();
+    expectTypeOf<RouterOutput<typeof router, 'ping'>>().toEqualTypeOf<'pong'>();
+  });
+
+  describe('call()', () => {
+    it('should execute the operation with the given context', async () => {
+      const ctx = { db: { users: [] as string[] } };
+
+      expect(await router.call('users.create', { name: 'Ada' }, ctx)).toEqual({ id: 1 });
+      expect(await router.call('users.list', {}, ctx)).toEqual(['Ada']);
+      expect(await router.call('ping', {})).toBe('pong');
+    });
+
+    it('should validate input through execute', async () => {
+      await expect(router.call('billing.invoices.charge', { amount: -1 })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should reject unknown paths', async () => {
+      const error = await router.call('users.delete' as any, {}).catch((e) => e);
+
+      expect(error).toBeInstanceOf(OperationNotFoundError);
+      expect(error.path).toBe('users.delete');
+    });
+
+    it('should type-check paths, input and context', () => {
+      // @ts-expect-error unknown path
+      router.call('users.remove', {}).catch(() => {});
+      // @ts-expect-error wrong input
+      router.call('billing.invoices.charge', { amount: '1' }).catch(() => {});
+      // @ts-expect-error the context is required
+      router.call('users.list', {}).catch(() => {});
+    });
+  });
+
+  it('should reject keys containing dots', () => {
+    expect(() => Opa.router({ 'users.create': createUser })).toThrow('cannot contain "."');
+  });
+});
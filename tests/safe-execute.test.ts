@@ -0,0 +1,66 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { Opa, op, ValidationError, OutputValidationError, type OperationFailure } from '../src/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+
+describe('safeExecute', () => {
+  it('should resolve with the value on success', async () => {
+    const operation = op.input(v.object({ name: v.string() })).handler(async ({ input }) => `Hello ${input.name}`);
+
+    const result = await operation.safeExecute({ name: 'Ada' });
+
+    expect(result).toEqual({ ok: true, value: 'Hello Ada' });
+    if (result.ok) {
+      expectTypeOf(result.value).toEqualTypeOf<string>();
+    }
+  });
+
+  it('should report validation failures with their issues', async () => {
+    const operation = op.input(z.object({ email: z.string().email() })).handler(async ({ input }) => input.email);
+
+    const result = await operation.safeExecute({ email: 'nope' });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok && result.error.kind === 'validation') {
+      expect(result.error.error).toBeInstanceOf(ValidationError);
+      expect(result.error.issues).toHaveLength(1);
+      expect(result.error.error.paths).toEqual(['email']);
+    } else {
+      expect.fail('Expected a validation failure');
+    }
+  });
+
+  it('should report handler failures without rejecting', async () => {
+    const failure = new Error('Database unavailable');
+    const operation = Opa.context({ db: null })
+      .create()
+      .operation.input(v.object({ id: v.number() }))
+      .handler(async (): Promise<string> => {
+        throw failure;
+      });
+
+    const result = await operation.safeExecute({ id: 1 });
+
+    expect(result).toEqual({ ok: false, error: { kind: 'handler', error: failure } });
+  });
+
+  it('should report output contract failures separately', async () => {
+    const operation = op
+      .input(v.object({ id: v.number() }))
+      .handler(async ({ input }): Promise<unknown> => ({ id: String(input.id) }))
+      .output(v.object({ id: v.number() }));
+
+    const result = await operation.safeExecute({ id: 1 });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.kind).toBe('output');
+      expect(result.error.error).toBeInstanceOf(OutputValidationError);
+    }
+  });
+
+  it('should narrow failures by kind', () => {
+    expectTypeOf<Extract<OperationFailure, { kind: 'validation' }>['error']>().toEqualTypeOf<ValidationError>();
+    expectTypeOf<Extract<OperationFailure, { kind: 'handler' }>['error']>().toEqualTypeOf<unknown>();
+  });
+});
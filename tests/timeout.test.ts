@@ -0,0 +1,246 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  Opa,
+  OperationAbortedError,
+  OperationTimeoutError,
+  isOperationAbortedError,
+  isOperationTimeoutError,
+  pipe,
+} from '../src/index.js';
+import { z } from 'zod';
+
+// Resolves after `ms`, or rejects with the signal's reason once it aborts
+function wait(ms: number, signal: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve('done'), ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+}
+
+describe('Cancellation', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('execute({ signal })', () => {
+    it('should pass an AbortSignal to the handler', async () => {
+      const operation = Opa.create()
+        .operation.input(z.string())
+        .handler(async ({ signal }) => signal);
+
+      const signal = await operation.execute('a');
+      expect(signal).toBeInstanceOf(AbortSignal);
+      expect(signal.aborted).toBe(false);
+    });
+
+    it('should reject with an OperationAbortedError once the signal aborts', async () => {
+      let handlerSignal: AbortSignal | undefined;
+      const operation = Opa.create()
+        .operation.input(z.string())
+        .meta({ name: 'slow' })
+        .handler(async ({ signal }) => {
+          handlerSignal = signal;
+          return new Promise<string>(() => {});
+        });
+      const controller = new AbortController();
+
+      const result = operation.execute('a', { signal: controller.signal });
+      await vi.waitFor(() => expect(handlerSignal).toBeDefined());
+      controller.abort('user left');
+
+      const error = await result.catch((error) => error);
+      expect(error).toBeInstanceOf(OperationAbortedError);
+      expect(error.message).toBe('Operation "slow" was aborted');
+      expect(error.cause).toBe('user left');
+      expect(error.operation).toBe(operation);
+      expect(isOperationAbortedError(error)).toBe(true);
+      expect(handlerSignal?.aborted).toBe(true);
+    });
+
+    it('should not start when the signal has already aborted', async () => {
+      const handler = vi.fn(async () => 'done');
+      const validate = vi.fn();
+      const schema = z.string().refine((value) => (validate(value), true));
+      const operation = Opa.create().operation.input(schema).handler(handler);
+
+      await expect(operation.execute('a', { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(
+        OperationAbortedError,
+      );
+      expect(validate).not.toHaveBeenCalled();
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should not run the handler when the signal aborts while the context resolves', async () => {
+      const handler = vi.fn(async () => 'done');
+      const controller = new AbortController();
+      let resolveContext!: (ctx: { user: string }) => void;
+      const operation = Opa.context(() => new Promise<{ user: string }>((resolve) => (resolveContext = resolve)))
+        .create()
+        .operation.input(z.string())
+        .handler(handler);
+
+      const result = operation.execute('a', { signal: controller.signal });
+      await vi.waitFor(() => expect(resolveContext).toBeDefined());
+      controller.abort();
+      resolveContext({ user: 'ada' });
+
+      await expect(result).rejects.toBeInstanceOf(OperationAbortedError);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should not resolve the context or run the handler when timed out during validation', async () => {
+      const handler = vi.fn(async () => 'done');
+      const context = vi.fn(() => ({ user: 'ada' }));
+      const schema = z.string().refine(() => new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 50)));
+      const operation = Opa.context(context).create().operation.input(schema).timeout(10).handler(handler);
+      vi.useFakeTimers();
+
+      const result = operation.execute('a').catch((error) => error);
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(await result).toBeInstanceOf(OperationTimeoutError);
+      expect(context).not.toHaveBeenCalled();
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should report aborts from safeExecute', async () => {
+      const operation = Opa.create()
+        .operation.input(z.string())
+        .handler(async () => 'done');
+
+      const result = await operation.safeExecute('a', { signal: AbortSignal.abort() });
+      expect(!result.ok && result.error.kind).toBe('aborted');
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should reject with an OperationTimeoutError after .timeout(ms)', async () => {
+      vi.useFakeTimers();
+      const operation = Opa.create()
+        .operation.input(z.string())
+        .meta({ name: 'export' })
+        .timeout(100)
+        .handler(async ({ signal }) => wait(1_000, signal));
+
+      const result = operation.execute('a').catch((error) => error);
+      await vi.advanceTimersByTimeAsync(100);
+
+      const error = await result;
+      expect(error).toBeInstanceOf(OperationTimeoutError);
+      expect(error).toBeInstanceOf(OperationAbortedError);
+      expect(error.message).toBe('Operation "export" timed out after 100ms');
+      expect(error.timeoutMs).toBe(100);
+      expect(isOperationTimeoutError(error)).toBe(true);
+    });
+
+    it('should let execute override the timeout', async () => {
+      vi.useFakeTimers();
+      const operation = Opa.create()
+        .operation.input(z.string())
+        .timeout(100)
+        .handler(async ({ signal }) => wait(500, signal));
+
+      const result = operation.execute('a', { timeoutMs: 1_000 });
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(await result).toBe('done');
+    });
+
+    it('should clear the timer once the execution settles', async () => {
+      vi.useFakeTimers();
+      const operation = Opa.create()
+        .operation.input(z.string())
+        .timeout(100)
+        .handler(async () => 'done');
+
+      expect(await operation.execute('a')).toBe('done');
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should stop retrying once timed out', async () => {
+      vi.useFakeTimers();
+      const handler = vi.fn(async () => {
+        throw new Error('flaky');
+      });
+      const operation = Opa.create()
+        .operation.input(z.string())
+        .timeout(150)
+        .retry({ attempts: 10, backoff: 'linear', delayMs: 100 })
+        .handler(handler);
+
+      const result = operation.execute('a').catch((error) => error);
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      expect(await result).toBeInstanceOf(OperationTimeoutError);
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not time out with an Infinity timeout', async () => {
+      vi.useFakeTimers();
+      const builder = Opa.create().operation.input(z.string());
+      const unlimited = builder.timeout(Infinity).handler(async ({ signal }) => wait(500, signal));
+      const lifted = builder.timeout(100).handler(async ({ signal }) => wait(500, signal));
+
+      const results = [unlimited.execute('a'), lifted.execute('a', { timeoutMs: Infinity })];
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(await Promise.all(results)).toEqual(['done', 'done']);
+    });
+
+    it('should reject invalid timeouts', async () => {
+      const builder = Opa.create().operation.input(z.string());
+      const operation = builder.handler(async ({ input }) => input);
+
+      for (const ms of [0, -1, NaN, 2 ** 31]) {
+        expect(() => builder.timeout(ms)).toThrow(RangeError);
+        await expect(operation.execute('a', { timeoutMs: ms })).rejects.toBeInstanceOf(RangeError);
+      }
+    });
+  });
+
+  describe('composed operations', () => {
+    it('should cancel the running step along with the composed operation', async () => {
+      vi.useFakeTimers();
+      const signals: AbortSignal[] = [];
+      const step = Opa.create()
+        .operation.input(z.string())
+        .handler(async ({ input, signal }) => {
+          signals.push(signal);
+          return wait(100, signal).then(() => input);
+        });
+      const controller = new AbortController();
+
+      const result = pipe(step, step, step)
+        .execute('a', { signal: controller.signal })
+        .catch((error) => error);
+      await vi.advanceTimersByTimeAsync(150);
+      controller.abort();
+
+      expect(await result).toBeInstanceOf(OperationAbortedError);
+      // The first step had finished; the second was stopped and the third never started
+      expect(signals).toHaveLength(2);
+      expect(signals[1].aborted).toBe(true);
+      expect(signals[1].reason).toBeInstanceOf(OperationAbortedError);
+    });
+
+    it('should time out the composed operation as a whole', async () => {
+      vi.useFakeTimers();
+      const step = Opa.create()
+        .operation.input(z.string())
+        .handler(async ({ input, signal }) => wait(100, signal).then(() => input));
+
+      const result = pipe(step, step, step)
+        .execute('a', { timeoutMs: 250 })
+        .catch((error) => error);
+      await vi.advanceTimersByTimeAsync(250);
+
+      const error = await result;
+      expect(error).toBeInstanceOf(OperationTimeoutError);
+      expect(error.timeoutMs).toBe(250);
+    });
+  });
+});
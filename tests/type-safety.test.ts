@@ -1,5 +1,5 @@
 import { describe, it, expect, expectTypeOf } from 'vitest';
-import { Opa, op, type Operation } from '../src/index.js';
+import { Opa, op, type ExecuteOptions, type Operation } from '../src/index.js';
 import * as v from 'valibot';
 import { z } from 'zod';
 import { type } from 'arktype';
@@ -270,7 +270,9 @@ describe('Type Safety and TypeScript Features', () => {
       expectTypeOf(operation).toMatchTypeOf<Operation<{ value: string }, string, never, typeof schema>>();
 
       // Should have all required methods
-      expectTypeOf(operation.execute).toEqualTypeOf<(input: { value: string }) => Promise<string>>();
+      expectTypeOf(operation.execute).toEqualTypeOf<
+        (input: { value: string }, options?: { ctx?: undefined } & ExecuteOptions) => Promise<string>
+      >();
       expectTypeOf(operation.handler).toEqualTypeOf<(args: { input: { value: string } }) => Promise<string>>();
       expectTypeOf(operation.schema).toEqualTypeOf<typeof schema>();
     });
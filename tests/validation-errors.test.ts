@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { Opa, op } from '../src/index.js';
+import { Opa, op, ValidationError, isValidationError, formatIssuePath } from '../src/index.js';
+import { standardValidate } from '../src/types/standard-schema-example.js';
 import * as v from 'valibot';
 import { z } from 'zod';
 import { type } from 'arktype';
@@ -58,6 +59,69 @@ describe('Validation and Error Handling', () => {
     });
   });
 
+  describe('ValidationError', () => {
+    it('should expose issues, normalized paths and field errors', async () => {
+      const operation = op
+        .input(
+          z.object({
+            user: z.object({ email: z.string().email() }),
+            tags: z.array(z.string()),
+          }),
+        )
+        .handler(async ({ input }) => input);
+
+      const error = await operation.execute({ user: { email: 'nope' }, tags: ['ok', 1] } as any).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(isValidationError(error)).toBe(true);
+      expect(error.name).toBe('ValidationError');
+      expect(error.issues).toHaveLength(2);
+      expect(error.paths).toEqual(['user.email', 'tags[1]']);
+      expect(Object.keys(error.fieldErrors)).toEqual(['user.email', 'tags[1]']);
+      expect(error.fieldErrors['user.email']).toHaveLength(1);
+      expect(error.formErrors).toEqual([]);
+      expect(error.operation).toBe(operation);
+    });
+
+    it('should normalize valibot path segments', async () => {
+      const operation = op
+        .input(v.object({ items: v.array(v.object({ 'display name': v.string() })) }))
+        .handler(async ({ input }) => input);
+
+      const error = await operation.execute({ items: [{ 'display name': 1 }] } as any).catch((e) => e);
+
+      expect(error.paths).toEqual(['items[0]["display name"]']);
+    });
+
+    it('should collect root-level issues as form errors', async () => {
+      const operation = op.input(type('string')).handler(async ({ input }) => input);
+
+      const error = await operation.execute(42 as any).catch((e) => e);
+
+      expect(error.paths).toEqual(['']);
+      expect(error.fieldErrors).toEqual({});
+      expect(error.formErrors).toHaveLength(1);
+    });
+
+    it('should not flag other errors', () => {
+      expect(isValidationError(new Error('boom'))).toBe(false);
+      expect(isValidationError({ issues: [] })).toBe(false);
+    });
+
+    it('should be shared with standardValidate', async () => {
+      const error = await standardValidate(z.object({ name: z.string() }), { name: 1 } as any).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.fieldErrors.name).toHaveLength(1);
+      expect(error.operation).toBeUndefined();
+    });
+
+    it('should format issue paths', () => {
+      expect(formatIssuePath(undefined)).toBe('');
+      expect(formatIssuePath(['a', 0, { key: 'b' }, 'c-d'])).toBe('a[0].b["c-d"]');
+    });
+  });
+
   describe('Context validation with errors', () => {
     it('should handle validation errors in context operations', async () => {
       const operation = Opa.context({ service: 'test' })